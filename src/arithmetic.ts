@@ -0,0 +1,412 @@
+/** Copyright 2025 by Stijn de Witt, some rights reserved */
+import type { prim, PRIM, PrimConstructor, Constraint, ConstraintMeta,
+  Transform, ExtendPrim } from './prim.js'
+import { PrimError, constraintMeta, constraintsOf, primIssue,
+  primTypeOf } from './prim.js'
+import type { VARINT } from './varint.js'
+// For linking from jsdoc comments
+import type { int } from './int.js'
+import type { big } from './big.js'
+import type { rangeConstraint } from './range.js'
+
+/**
+ * The ways to handle an arithmetic result that does not fit the type:
+ *
+ * - `'throw'`: throw a `PrimError` with code `'overflow'`
+ * - `'wrap'`: wrap around into the bounds of the type, like `BigInt.asIntN`
+ *   does for the full width of the type
+ * - `'saturate'`: clamp the result to the bounds of the type
+ *
+ * The bounds of the type are the tightest bounds of its width and range
+ * constraints, and, for `number` types, of the safe integers.
+ *
+ * @see {@link integerBounds}
+ */
+export type Overflow = 'throw' | 'wrap' | 'saturate'
+
+/**
+ * The bounds of an integer type, derived from its width and range
+ * constraints.
+ *
+ * @field min The smallest value of the type
+ * @field max The largest value of the type
+ * @field bits The width of the type in bits
+ * @field signed Whether the type is signed (`width`) or unsigned (`uwidth`)
+ */
+export type IntegerBounds = {
+  min: bigint
+  max: bigint
+  bits: number
+  signed: boolean
+}
+
+/**
+ * Rounds the bound `b` of a range to an integer, `'ceil'` for lower bounds
+ * and `'floor'` for upper bounds, or returns `undefined` if it is infinite.
+ */
+const integerBound = (b: PRIM | PRIM[], rounding: 'ceil' | 'floor') =>
+  typeof b == 'bigint' ? b :
+  Number.isFinite(b) ? BigInt(Math[rounding](Number(b))) :
+  undefined
+
+/**
+ * Gets the bounds of the integer type of constructor `pc`, based on the
+ * metadata of its `widthConstraint` or `uwidthConstraint`, narrowed by the
+ * metadata of any `rangeConstraint`s.
+ *
+ * ```ts
+ * integerBounds(Int8)
+ * // { min: -128n, max: 127n, bits: 8, signed: true }
+ * const Port = Prim<int32>('port', Int32, rangeConstraint(1, 65535))
+ * integerBounds(Port)
+ * // { min: 1n, max: 65535n, bits: 32, signed: true }
+ * ```
+ *
+ * @param pc The constructor of the integer type
+ * @returns The bounds of the integer type
+ * @throws `TypeError` if `pc` has no width constraint
+ *
+ * @see {@link rangeConstraint}
+ */
+export const integerBounds =
+  <P extends VARINT> (pc: PrimConstructor<P>): IntegerBounds => {
+    const signed = constraintMeta(pc, 'width')
+    const meta = signed || constraintMeta(pc, 'uwidth')
+    if (!meta) throw new TypeError(
+      `'${pc.name}' is not an integer type with a width.`
+    )
+    const { min, max, bits } = meta.params
+    return constraintsOf(pc)
+      .map(c => c.meta)
+      .filter((meta): meta is ConstraintMeta => meta?.kind == 'range')
+      .reduce((bounds, { params }) => {
+        const min = integerBound(params.min, 'ceil')
+        const max = integerBound(params.max, 'floor')
+        if ((min !== undefined) && (min > bounds.min)) bounds.min = min
+        if ((max !== undefined) && (max < bounds.max)) bounds.max = max
+        return bounds
+      }, {
+        min: BigInt(min as bigint), max: BigInt(max as bigint),
+        bits: Number(bits), signed: !!signed
+      })
+  }
+
+/** The largest integer that a `number` represents exactly */
+const maxSafe = BigInt(Number.MAX_SAFE_INTEGER)
+
+/**
+ * Gets the `integerBounds` of the type of `pc`, narrowed to the safe
+ * integers for `number` types, so that every integer within them converts to
+ * a `number` exactly.
+ */
+const safeBounds = <P extends VARINT> (pc: PrimConstructor<P>) => {
+  const { min, max } = integerBounds(pc)
+  return primTypeOf(pc) == 'bigint' ? { min, max } : {
+    min: min < -maxSafe ? -maxSafe : min,
+    max: max > maxSafe ? maxSafe : max,
+  }
+}
+
+/**
+ * Fits the integer `r` into the integer type of constructor `pc`, handling
+ * overflow of the `integerBounds` of the type as specified by `overflow`.
+ *
+ * ```ts
+ * fit(Int8, 300n, 'saturate') // 127
+ * fit(Int8, 300n, 'wrap') // 44
+ * fit(Int8, 300n, 'throw') // runtime error
+ * // PrimError: 300 is not assignable to 'int<1>'.
+ * //   Arithmetic overflow, not in range -128 .. 127.
+ * ```
+ *
+ * For `number` types, the bounds are narrowed to the safe integers, so an
+ * integer like `-(2^53)`, that a `number` can not tell apart from its
+ * neighbours, overflows as well.
+ *
+ * The fitted integer is converted with `pc.to`, so it is checked against the
+ * other constraints of the type as well, e.g. those of an enum.
+ *
+ * @param pc The constructor of the integer type
+ * @param r The integer to fit
+ * @param overflow How to handle overflow, defaults to `'throw'`
+ * @returns `r`, fitted to the integer type
+ * @throws `PrimError` if `r` overflows and `overflow` is `'throw'`, or if
+ *         the fitted integer does not satisfy the constraints of the type
+ *
+ * @see {@link integerBounds}
+ */
+export const fit = <P extends VARINT> (
+  pc: PrimConstructor<P>,
+  r: bigint,
+  overflow: Overflow = 'throw'
+): P => {
+  const { min, max } = safeBounds(pc)
+  if ((r < min) || (r > max)) {
+    if (overflow == 'throw') throw new PrimError(primIssue(pc, r,
+      'overflow',
+      `${r} is not assignable to '${pc.name}'.\n` +
+      `  Arithmetic overflow, not in range ${min} .. ${max}.`,
+      { min, max }
+    ))
+    const n = max - min + 1n
+    r = overflow == 'saturate' ? (r < min ? min : max) :
+      min + ((r - min) % n + n) % n
+  }
+  return pc.to((primTypeOf(pc) == 'number' ? Number(r) : r) as P)
+}
+
+/**
+ * The ways to round a non-integer number to an integer:
+ *
+ * - `'trunc'`: round towards zero, like C integer conversion does
+ * - `'floor'`: round towards negative infinity
+ * - `'ceil'`: round towards positive infinity
+ * - `'round'`: round to the nearest integer, halves towards positive infinity
+ */
+export type Rounding = 'trunc' | 'floor' | 'ceil' | 'round'
+
+/**
+ * Rounds the number `v` to an integer, as specified by `rounding`.
+ *
+ * ```ts
+ * integerOf(2.7) // 2n
+ * integerOf(2.7, 'round') // 3n
+ * integerOf(-2.5, 'floor') // -3n
+ * ```
+ *
+ * @param v The number to round
+ * @param rounding The rounding mode, defaults to `'trunc'`
+ * @returns The rounded integer, as a `bigint`
+ * @throws `RangeError` if `v` is `NaN` or infinite
+ */
+export const integerOf = (v: VARINT, rounding: Rounding = 'trunc') =>
+  typeof v == 'bigint' ? v : BigInt(Math[rounding](v))
+
+/**
+ * A conversion function that forces `v` into the integer type `P`, rounding
+ * non-integers as specified by `rounding`.
+ *
+ * @template P The integer type to convert to
+ * @param v The number to convert
+ * @param rounding The rounding mode, defaults to `'trunc'`
+ * @returns `v`, converted to `P`
+ */
+export type FitPrim<P extends VARINT> =
+  (v: VARINT, rounding?: Rounding) => P
+
+/**
+ * A function that derives the constructor for the integer subtype `S` of
+ * `P`, like `ExtendPrim` does, keeping the `clamp` and `wrap` conversions.
+ *
+ * @template P The integer type to derive from
+ * @template S The subtype, defaults to `prim<P>`
+ *
+ * @see {@link ExtendPrim}
+ */
+export type ExtendInteger<P extends VARINT> = <S extends P = prim<P>> (
+  name: string,
+  constraints?: Constraint | Constraint[],
+  transforms?: Transform | Transform[]
+) => IntegerConstructor<S>
+
+/**
+ * The constructor for the integer type `P`, which, in addition to `to`, `is`,
+ * `as` and `validate`, offers `clamp` and `wrap` conversions that never
+ * reject an out-of-range value.
+ *
+ * ```ts
+ * Int8(300) // runtime error
+ * Int8.clamp(300) // 127
+ * Int8.wrap(300) // 44
+ * Int8.clamp(-1000.7) // -128
+ * Int8.wrap(2.5, 'ceil') // 3
+ * ```
+ *
+ * Subtypes derived with `extend` keep the `clamp` and `wrap` conversions:
+ *
+ * ```ts
+ * const Port = Int32.extend('port', rangeConstraint(1, 65535))
+ * Port.clamp(0) // 1
+ * ```
+ *
+ * @template P The integer type
+ *
+ * @field clamp Saturates `v` to the bounds of `P`
+ * @field wrap Wraps `v` around into the bounds of `P`, like `BigInt.asIntN`
+ *        does for the full width of `P`
+ * @field extend The `ExtendInteger` function, deriving integer subtypes
+ *
+ * @see {@link integerConstructor}
+ */
+export type IntegerConstructor<P extends VARINT> =
+  {
+    clamp: FitPrim<P>
+    wrap: FitPrim<P>
+    extend: ExtendInteger<P>
+  } & PrimConstructor<P>
+
+/**
+ * Adds the `clamp` and `wrap` conversions to the constructor `pc` of an
+ * integer type.
+ *
+ * The bounds are the `integerBounds` of the type, so a range constraint is
+ * honoured as well as the width. The result is converted with `pc.to`, so a
+ * `PrimError` is thrown if it does not satisfy the other constraints:
+ *
+ * ```ts
+ * const Port = integerConstructor(
+ *   Prim<int32>('port', Int32, rangeConstraint(1, 65535))
+ * )
+ * Port.clamp(0) // 1
+ * Port.wrap(65536) // 1
+ * ```
+ *
+ * Infinite values are clamped to the bounds of the type, but can not be
+ * wrapped. `NaN` can neither be clamped nor wrapped.
+ *
+ * @template P The integer type
+ * @param pc The constructor of the integer type
+ * @returns `pc`, extended with `clamp` and `wrap`
+ *
+ * @see {@link IntegerConstructor}
+ */
+export const integerConstructor =
+  <P extends VARINT> (pc: PrimConstructor<P>): IntegerConstructor<P> => {
+    const result = pc as IntegerConstructor<P>
+    const force = (v: VARINT, rounding: Rounding, overflow: Overflow) => {
+      if ((typeof v == 'number') && !Number.isFinite(v)) {
+        // let the constraints reject what can not be forced into the type
+        if (Number.isNaN(v) || (overflow == 'wrap')) return result.to(v)
+        const { min, max } = integerBounds(pc)
+        return fit(pc, v < 0 ? min : max, 'saturate')
+      }
+      return fit(pc, integerOf(v, rounding), overflow)
+    }
+    result.clamp = (v, rounding = 'trunc') => force(v, rounding, 'saturate')
+    result.wrap = (v, rounding = 'trunc') => force(v, rounding, 'wrap')
+    const extend: ExtendPrim<P> = pc.extend
+    result.extend = <S extends P> (
+      name: string,
+      constraints?: Constraint | Constraint[],
+      transforms?: Transform | Transform[]
+    ) => integerConstructor(extend<S>(name, constraints, transforms))
+    return result
+  }
+
+/**
+ * Checked arithmetic on the integer type `P`.
+ *
+ * All operations take values of type `P` and return a value of type `P`.
+ * Results that do not fit `P` are handled according to the `Overflow` mode.
+ *
+ * @template P The integer type, e.g. `int8` or `big64`
+ *
+ * @see {@link Arithmetic} for the factory function
+ */
+export type Arithmetic<P extends VARINT> = {
+  /** Adds `a` and `b` */
+  add: (a: P, b: P) => P
+  /** Subtracts `b` from `a` */
+  sub: (a: P, b: P) => P
+  /** Multiplies `a` by `b` */
+  mul: (a: P, b: P) => P
+  /**
+   * Divides `a` by `b`, truncating the result towards zero.
+   * Throws a `PrimError` if `b` is zero.
+   */
+  div: (a: P, b: P) => P
+  /**
+   * The remainder of dividing `a` by `b`, having the sign of `a`.
+   * Throws a `PrimError` if `b` is zero.
+   */
+  mod: (a: P, b: P) => P
+  /** Negates `a` */
+  neg: (a: P) => P
+  /** The absolute value of `a` */
+  abs: (a: P) => P
+}
+
+/**
+ * Creates checked arithmetic operations for the integer type of constructor
+ * `pc`.
+ *
+ * Plain `+` and `*` drop the brand of prim types and can silently exceed their
+ * width. The operations returned by this function keep the type and handle
+ * overflow as specified:
+ *
+ * ```ts
+ * import { type int8, Int8, Arithmetic } from 'ts-prims'
+ *
+ * const { add, div } = Arithmetic(Int8)
+ * let x: int8 = add(Int8(100), Int8(20)) // 120
+ * x = div(Int8(7), Int8(2)) // 3
+ * x = add(Int8(100), Int8(100)) // runtime error
+ * // PrimError: 200 is not assignable to 'int<1>'.
+ * //   Arithmetic overflow, not in range -128 .. 127.
+ *
+ * Arithmetic(Int8, 'wrap').add(Int8(100), Int8(100)) // -56
+ * Arithmetic(Int8, 'saturate').add(Int8(100), Int8(100)) // 127
+ * ```
+ *
+ * Overflow is checked against the tightest bounds of the width and range
+ * constraints of the type, and results are checked against its other
+ * constraints as well:
+ *
+ * ```ts
+ * const Port = Prim<int32>('port', Int32, rangeConstraint(1, 65535))
+ * Arithmetic(Port).add(Port(65535), Port(1)) // runtime error
+ * // PrimError: 65536 is not assignable to 'port'.
+ * //   Arithmetic overflow, not in range 1 .. 65535.
+ * Arithmetic(Port, 'saturate').add(Port(65535), Port(1)) // 65535
+ * ```
+ *
+ * Division truncates towards zero, like integer division does, so results
+ * always remain integers. Dividing by zero, with `div` or `mod`, throws a
+ * `PrimError` with code `'division_by_zero'`:
+ *
+ * ```ts
+ * div(Int8(7), Int8(0)) // runtime error
+ * // PrimError: 7 / 0 is not assignable to 'int<1>'.
+ * //   Division by zero.
+ * ```
+ *
+ * @template P The integer type, e.g. `int8` or `big64`
+ * @param pc The constructor of the integer type, e.g. `Int8` or `Big64`
+ * @param overflow How to handle overflow, defaults to `'throw'`
+ * @returns The arithmetic operations
+ * @throws `TypeError` if `pc` has no width constraint
+ * @throws `PrimError` from the operations, if the result overflows the type
+ *         and `overflow` is `'throw'`, if it does not satisfy the other
+ *         constraints of the type, or if `div` or `mod` divide by zero
+ *
+ * @see {@link int} for the low-width (fast) integer types
+ * @see {@link big} for the high-width (slow) integer types
+ * @see {@link Overflow} for the overflow modes
+ */
+export const Arithmetic = <P extends VARINT> (
+  pc: PrimConstructor<P>,
+  overflow: Overflow = 'throw'
+): Arithmetic<P> => {
+  // fail early for types without a width
+  integerBounds(pc)
+  const op = (fn: (a: bigint, b: bigint) => bigint) =>
+    (a: P, b: P) => fit(pc, fn(BigInt(a), BigInt(b)), overflow)
+  const divide = (symbol: string, fn: (a: bigint, b: bigint) => bigint) =>
+    op((a, b) => {
+      if (b == 0n) throw new PrimError(primIssue(pc, a,
+        'division_by_zero',
+        `${a} ${symbol} 0 is not assignable to '${pc.name}'.\n` +
+        `  Division by zero.`
+      ))
+      return fn(a, b)
+    })
+  return {
+    add: op((a, b) => a + b),
+    sub: op((a, b) => a - b),
+    mul: op((a, b) => a * b),
+    div: divide('/', (a, b) => a / b),
+    mod: divide('%', (a, b) => a % b),
+    neg: (a: P) => fit(pc, -BigInt(a), overflow),
+    abs: (a: P) => fit(pc, BigInt(a) < 0n ? -BigInt(a) : BigInt(a), overflow),
+  }
+}
@@ -0,0 +1,324 @@
+/** Copyright 2025 by Stijn de Witt, some rights reserved */
+import type { PrimIssue, Validation } from './prim.js'
+import { PrimError, displayUnknown } from './prim.js'
+import type { FieldConstructor, FieldType } from './record.js'
+// For linking from jsdoc comments
+import type { Rtti } from './prim.js'
+import type { Record } from './record.js'
+
+/**
+ * The options for {@link ArrayOf}.
+ *
+ * @field min The minimum number of elements, defaults to `0`
+ * @field max The maximum number of elements, defaults to no maximum
+ * @field unique Whether the elements must be unique, defaults to `false`
+ * @field name The name of the array type, defaults to a description of the
+ *        element type and the bounds, e.g. `'varchar<64>[0..16]'`
+ */
+export type ArrayOptions = {
+  min?: number
+  max?: number
+  unique?: boolean
+  name?: string
+}
+
+/**
+ * The constructor for readonly arrays with elements of type `T`.
+ *
+ * It follows the conventions of `Rtti`: `to` constructs a new array from the
+ * validated elements, `is` and `as` check an array as is, and `validate`
+ * reports all issues, with the property `path` of each issue pointing at the
+ * index of the offending element.
+ *
+ * @template E The element constructor
+ *
+ * @see {@link ArrayOf}
+ */
+export type ArrayConstructor<E extends FieldConstructor> = {
+  (v: unknown): readonly FieldType<E>[]
+  name: string
+  of: E
+  min: number
+  max: number
+  unique: boolean
+  to: (v: unknown) => readonly FieldType<E>[]
+  is: (v: unknown) => v is readonly FieldType<E>[]
+  as: (v: unknown) => asserts v is readonly FieldType<E>[]
+  validate: (v: unknown) => Validation<readonly FieldType<E>[]>
+}
+
+/**
+ * The tuple type with the element types constructed by the constructors `T`.
+ *
+ * ```ts
+ * type rgb = tuple<[ typeof Int16, typeof Int16, typeof Int16 ]>
+ * // type rgb = [ int16, int16, int16 ]
+ * ```
+ *
+ * @template T The element constructors
+ *
+ * @see {@link TupleOf} for the constructor
+ */
+export type tuple<T extends readonly FieldConstructor[]> = {
+  -readonly [K in keyof T]: FieldType<T[K]>
+}
+
+/**
+ * The constructor for the tuple type with element constructors `T`.
+ *
+ * It follows the same conventions as {@link ArrayConstructor}.
+ *
+ * @template T The element constructors
+ *
+ * @see {@link TupleOf}
+ */
+export type TupleConstructor<T extends readonly FieldConstructor[]> = {
+  (v: unknown): tuple<T>
+  name: string
+  of: T
+  to: (v: unknown) => tuple<T>
+  is: (v: unknown) => v is tuple<T>
+  as: (v: unknown) => asserts v is tuple<T>
+  validate: (v: unknown) => Validation<tuple<T>>
+}
+
+/** Wraps `name` in parentheses if it is a union, e.g. `'memo | null'` */
+const group = (name: string) => name.includes(' | ') ? `(${name})` : name
+
+/** Returns the default name for `ArrayOf` */
+const arrayName = (of: string, min: number, max: number, unique: boolean) =>
+  (min == 0) && (max == Infinity) && !unique ? `${group(of)}[]` :
+  `${group(of)}[${min}..${max == Infinity ? '' : max}` +
+  `${unique ? ', unique' : ''}]`
+
+/** Describes the array `v` in messages */
+const describe = (v: readonly unknown[]) => `Array of length ${v.length}`
+
+/** Returns the issue for `v`, which is not an array */
+const notArray = (type: string, v: unknown): PrimIssue => ({
+  type, value: v, code: 'not_array', params: {},
+  message: `${displayUnknown(v)} is not assignable to '${type}'.\n` +
+    `  Not an array.`
+})
+
+/** Returns the issue for the array `v` when it is shorter than `min` */
+const tooShort = (type: string, v: readonly unknown[], min: number) =>
+  ({
+    type, value: v, code: 'too_short', params: { min },
+    message: `${describe(v)} is not assignable to '${type}'.\n` +
+      `  Length is less than ${min}.`
+  }) as PrimIssue
+
+/** Returns the issue for the array `v` when it is longer than `max` */
+const tooLong = (type: string, v: readonly unknown[], max: number) =>
+  ({
+    type, value: v, code: 'too_long', params: { max },
+    message: `${describe(v)} is not assignable to '${type}'.\n` +
+      `  Length exceeds ${max}.`
+  }) as PrimIssue
+
+/** Prefixes the path of `issue` with the index `i` */
+const at = (i: number, issue: PrimIssue): PrimIssue =>
+  ({ ...issue, path: [ i, ...(issue.path ?? []) ] })
+
+/** Asserts `v` with `as` and prefixes the path of any error with `i` */
+const assertAt = (as: (v: never) => void, v: unknown, i: number) => {
+  try {
+    as(v as never)
+  } catch (e) {
+    throw e instanceof PrimError ? new PrimError(at(i, e.issue)) : e
+  }
+}
+
+/**
+ * Validates the elements of `v` with the constructors returned by `of`,
+ * collecting the validated values in `value` and any issues in `issues`.
+ */
+const validateElements = (
+  v: readonly unknown[],
+  of: (i: number) => FieldConstructor,
+  value: unknown[],
+  issues: PrimIssue[]
+) => v.forEach((e, i) => {
+  const element = of(i).validate(e as never)
+  if (!element.ok) issues.push(...element.issues.map(issue => at(i, issue)))
+  else value.push(element.value)
+})
+
+/** Returns the index of the first element of `v` that is a duplicate */
+const duplicate = (v: readonly unknown[]) =>
+  v.findIndex((e, i) => v.indexOf(e) != i)
+
+/**
+ * Returns a constructor for readonly arrays with elements constructed by
+ * `pc`.
+ *
+ * Every element is validated with `pc` and the number of elements is
+ * constrained to `min` .. `max`:
+ *
+ * ```ts
+ * import { ArrayOf, Varchar } from 'ts-prims'
+ *
+ * const Tags = ArrayOf(Varchar(64), { max: 16, unique: true })
+ * type tags = ReturnType<typeof Tags>
+ * // type tags = readonly varchar<64>[]
+ * Tags.name // 'varchar<64>[0..16, unique]'
+ * Tags([ 'red', 'green' ]) // ok
+ * Tags([ 'red', 'red' ]) // runtime error
+ * // PrimError: [1]: "red" is not assignable to 'varchar<64>[0..16, unique]'.
+ * //   Duplicate of element 0.
+ * ```
+ *
+ * Issues with elements get the index of the element in their `path`.
+ * `validate` reports an issue with the number of elements, if any, before
+ * the issues with the elements. When `unique` is `true`, elements are
+ * compared after validation, with the same semantics as a `Set`, and
+ * duplicates are reported with code `not_unique`.
+ *
+ * @template E The element constructor
+ * @param pc The constructor for the elements
+ * @param options The length bounds, uniqueness and name of the array type
+ * @returns The constructor for the array type
+ *
+ * @see {@link ArrayOptions}
+ * @see {@link TupleOf} for arrays of fixed length
+ * @see {@link Rtti} for the conventions the constructor follows
+ * @see {@link Record} for objects
+ */
+export const ArrayOf = <E extends FieldConstructor> (
+  pc: E,
+  {
+    min = 0,
+    max = Infinity,
+    unique = false,
+    name = arrayName(pc.name, min, max, unique)
+  }: ArrayOptions = {}
+): ArrayConstructor<E> => {
+  type A = readonly FieldType<E>[]
+  const result = ({ [name]: (v: unknown) => result.to(v) })[name] as
+    ArrayConstructor<E>
+  result.of = pc
+  result.min = min
+  result.max = max
+  result.unique = unique
+
+  const lengthIssue = (v: readonly unknown[]) =>
+    v.length < min ? tooShort(name, v, min) :
+    v.length > max ? tooLong(name, v, max) :
+    undefined
+  const notUnique = (v: readonly unknown[], i: number): PrimIssue => {
+    const index = v.indexOf(v[i])
+    return {
+      type: name, value: v[i], code: 'not_unique', params: { index },
+      message: `${displayUnknown(v[i])} is not assignable to '${name}'.\n` +
+        `  Duplicate of element ${index}.`,
+      path: [ i ]
+    }
+  }
+
+  result.is = (v): v is A =>
+    Array.isArray(v) && !lengthIssue(v) &&
+    v.every(e => pc.is(e as never)) &&
+    !(unique && duplicate(v) != -1)
+  result.as = (v): asserts v is A => {
+    if (!Array.isArray(v)) throw new PrimError(notArray(name, v))
+    const issue = lengthIssue(v)
+    if (issue) throw new PrimError(issue)
+    v.forEach((e, i) => assertAt(pc.as, e, i))
+    const i = unique ? duplicate(v) : -1
+    if (i != -1) throw new PrimError(notUnique(v, i))
+  }
+  result.validate = (v) => {
+    if (!Array.isArray(v)) return { ok: false, issues: [ notArray(name, v) ] }
+    const value: unknown[] = []
+    const issues: PrimIssue[] = []
+    const issue = lengthIssue(v)
+    if (issue) issues.push(issue)
+    validateElements(v, () => pc, value, issues)
+    // compare the validated elements, so only when all of them are valid
+    if (unique && value.length == v.length) value.forEach((e, i) => {
+      if (value.indexOf(e) != i) issues.push(notUnique(value, i))
+    })
+    return issues.length ? { ok: false, issues } :
+      { ok: true, value: value as A }
+  }
+  result.to = (v) => {
+    const validation = result.validate(v)
+    if (!validation.ok) throw new PrimError(validation.issues[0])
+    return validation.value
+  }
+  return result
+}
+
+/**
+ * Returns a constructor for tuples with the elements constructed by `pcs`.
+ *
+ * The number of elements must match the number of constructors and every
+ * element is validated with the constructor at the same index:
+ *
+ * ```ts
+ * import { TupleOf, Int16 } from 'ts-prims'
+ *
+ * const Rgb = TupleOf(Int16, Int16, Int16)
+ * type rgb = ReturnType<typeof Rgb>
+ * // type rgb = [ int16, int16, int16 ]
+ * Rgb.name // '[int<2>, int<2>, int<2>]'
+ * Rgb([ 255, 128, 0 ]) // ok
+ * Rgb([ 255, 128 ]) // runtime error, length is less than 3
+ * Rgb([ 255, 128, 65536 ]) // runtime error
+ * // PrimError: [2]: 65536 is not assignable to 'int<2>'.
+ * //   Not in range -32768 .. 32767.
+ * ```
+ *
+ * Issues with elements get the index of the element in their `path`.
+ * `validate` reports an issue with the number of elements, if any, before
+ * the issues with the elements. Elements beyond the length of the tuple are
+ * not checked.
+ *
+ * @template T The element constructors
+ * @param pcs The constructors for the elements
+ * @returns The constructor for the tuple type
+ *
+ * @see {@link tuple}
+ * @see {@link ArrayOf} for arrays of variable length
+ * @see {@link Rtti} for the conventions the constructor follows
+ */
+export const TupleOf = <T extends readonly FieldConstructor[]> (
+  ...pcs: T
+): TupleConstructor<T> => {
+  const name = `[${pcs.map(pc => pc.name).join(', ')}]`
+  const result = ({ [name]: (v: unknown) => result.to(v) })[name] as
+    TupleConstructor<T>
+  result.of = pcs
+
+  const lengthIssue = (v: readonly unknown[]) =>
+    v.length < pcs.length ? tooShort(name, v, pcs.length) :
+    v.length > pcs.length ? tooLong(name, v, pcs.length) :
+    undefined
+
+  result.is = (v): v is tuple<T> =>
+    Array.isArray(v) && !lengthIssue(v) &&
+    v.every((e, i) => pcs[i].is(e as never))
+  result.as = (v): asserts v is tuple<T> => {
+    if (!Array.isArray(v)) throw new PrimError(notArray(name, v))
+    const issue = lengthIssue(v)
+    if (issue) throw new PrimError(issue)
+    v.forEach((e, i) => assertAt(pcs[i].as, e, i))
+  }
+  result.validate = (v) => {
+    if (!Array.isArray(v)) return { ok: false, issues: [ notArray(name, v) ] }
+    const value: unknown[] = []
+    const issues: PrimIssue[] = []
+    const issue = lengthIssue(v)
+    if (issue) issues.push(issue)
+    validateElements(v.slice(0, pcs.length), i => pcs[i], value, issues)
+    return issues.length ? { ok: false, issues } :
+      { ok: true, value: value as tuple<T> }
+  }
+  result.to = (v) => {
+    const validation = result.validate(v)
+    if (!validation.ok) throw new PrimError(validation.issues[0])
+    return validation.value
+  }
+  return result
+}
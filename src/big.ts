@@ -2,6 +2,8 @@ import type { width, Width, _54bit, _64bit, _96bit,
   _128bit, _160bit, _192bit, _256bit, _512bit, _4Kbit } from './width.js'
 import { widthConstraint } from './width.js'
 import { type prim, Prim } from './prim.js'
+import { integerConstructor } from './arithmetic.js'
+import { register } from './registry.js'
 import { isInteger } from './varint.js'
 // For linking from jsdoc comments
 import type { int, int54 } from './int.js'
@@ -50,9 +52,10 @@ export type big <W extends Width> =
  * @see {@link widthConstraint} constraint that values must be within width `W`
  * @see {@link varint} for the low-level type that accepts all widths
  */
-export const Big = <W extends Width> (w:W) => Prim<big<W>> (
-  `big<${w}>`, BigInt, [ isInteger, widthConstraint(w) ]
-)
+export const Big = <W extends Width> (w:W) =>
+  register(integerConstructor(Prim<big<W>> (
+    `big<${w}>`, BigInt, [ isInteger, widthConstraint(w) ]
+  )))
 
 /**
  * `64`-bit integer in the `HighWidth` (slow) range.
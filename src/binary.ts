@@ -0,0 +1,230 @@
+/** Copyright 2025 by Stijn de Witt, some rights reserved */
+import type { PrimConstructor } from './prim.js'
+import { PrimError, primIssue, primTypeOf } from './prim.js'
+import { integerBounds } from './arithmetic.js'
+import type { VARINT } from './varint.js'
+// For linking from jsdoc comments
+import type { widthBits } from './width.js'
+
+/** The byte order of binary encoded integers */
+export type Endian = 'big' | 'little'
+
+/**
+ * Options for binary encoding and decoding.
+ *
+ * @field endian The byte order, defaults to `'big'` (network byte order)
+ */
+export type BinaryOptions = {
+  endian?: Endian
+}
+
+/**
+ * The number of bytes used to binary encode values of the integer type of
+ * constructor `pc`.
+ *
+ * This is `widthBits(w) / 8`, rounded up for `54`-bit integers, which are
+ * encoded in `7` bytes.
+ *
+ * ```ts
+ * byteLength(Int24) // 3
+ * byteLength(Big96) // 12
+ * ```
+ *
+ * @param pc The constructor of the integer type
+ * @returns The number of bytes
+ * @throws `TypeError` if `pc` has no width constraint
+ *
+ * @see {@link widthBits}
+ */
+export const byteLength = <P extends VARINT> (pc: PrimConstructor<P>) =>
+  Math.ceil(integerBounds(pc).bits / 8)
+
+/**
+ * Encodes `v` as a fixed-width integer of the type of constructor `pc`.
+ *
+ * Signed integers are encoded in two's complement, unsigned integers as-is.
+ * This supports all widths, including the ones `DataView` does not, like
+ * `24`, `40`, `96` and `160` bits:
+ *
+ * ```ts
+ * import { Int24, encode } from 'ts-prims'
+ *
+ * encode(Int24, Int24(-2))
+ * // Uint8Array(3) [ 255, 255, 254 ]
+ * encode(Int24, Int24(-2), { endian: 'little' })
+ * // Uint8Array(3) [ 254, 255, 255 ]
+ * ```
+ *
+ * @template P The integer type
+ * @param pc The constructor of the integer type
+ * @param v The value to encode
+ * @param options The encoding options
+ * @returns The encoded bytes, exactly `byteLength(pc)` of them
+ * @throws `PrimError` if `v` is not of type `P`
+ *
+ * @see {@link decode} for the reverse operation
+ * @see {@link byteLength}
+ */
+export const encode = <P extends VARINT> (
+  pc: PrimConstructor<P>,
+  v: P,
+  { endian = 'big' }: BinaryOptions = {}
+) => {
+  pc.as(v)
+  const n = byteLength(pc), bytes = new Uint8Array(n)
+  let x = BigInt.asUintN(n * 8, BigInt(v))
+  for (let i = 0; i < n; i++, x >>= 8n) {
+    bytes[endian == 'big' ? n - 1 - i : i] = Number(x & 0xffn)
+  }
+  return bytes
+}
+
+/**
+ * Decodes a fixed-width integer of the type of constructor `pc` from `bytes`,
+ * and validates it.
+ *
+ * ```ts
+ * import { Int24, decode } from 'ts-prims'
+ *
+ * decode(Int24, new Uint8Array([ 255, 255, 254 ])) // -2
+ * ```
+ *
+ * @template P The integer type
+ * @param pc The constructor of the integer type
+ * @param bytes The bytes to decode, exactly `byteLength(pc)` of them
+ * @param options The decoding options
+ * @returns The decoded value
+ * @throws `PrimError` if the number of bytes is wrong, or if the decoded
+ *         value is not of type `P`
+ *
+ * @see {@link encode} for the reverse operation
+ * @see {@link byteLength}
+ */
+export const decode = <P extends VARINT> (
+  pc: PrimConstructor<P>,
+  bytes: Uint8Array,
+  { endian = 'big' }: BinaryOptions = {}
+) => {
+  const { bits, signed } = integerBounds(pc), n = byteLength(pc)
+  if (bytes.length != n) throw new PrimError(primIssue(pc, bytes.length,
+    'bad_encoding',
+    `Encoded '${pc.name}' has ${bytes.length} bytes.\n` +
+    `  Expected ${n} bytes.`,
+    { bits, bytes: n }
+  ))
+  let x = 0n
+  for (let i = 0; i < n; i++) {
+    x = (x << 8n) | BigInt(bytes[endian == 'big' ? i : n - 1 - i])
+  }
+  if (signed) x = BigInt.asIntN(n * 8, x)
+  return pc.to(primTypeOf(pc) == 'number' ? Number(x) : x)
+}
+
+/**
+ * Writes a sequence of fixed-width integers into a growing buffer.
+ *
+ * @field offset The number of bytes written so far
+ * @field write Encodes `v` as a value of the type of `pc` and appends it
+ * @field bytes Returns the bytes written so far
+ *
+ * @see {@link BinaryWriter} for the factory function
+ */
+export type BinaryWriter = {
+  offset: number
+  write: <P extends VARINT> (pc: PrimConstructor<P>, v: P) => BinaryWriter
+  bytes: () => Uint8Array
+}
+
+/**
+ * Creates a `BinaryWriter`, which writes a sequence of fixed-width integers.
+ *
+ * ```ts
+ * import { Int8, Int24, Big96, BinaryWriter } from 'ts-prims'
+ *
+ * const bytes = BinaryWriter()
+ *   .write(Int8, Int8(1))
+ *   .write(Int24, Int24(-2))
+ *   .write(Big96, Big96(3n))
+ *   .bytes()
+ * // Uint8Array(16)
+ * ```
+ *
+ * @param options The encoding options, used for all values
+ * @returns The binary writer
+ *
+ * @see {@link BinaryReader} for the reverse operation
+ */
+export const BinaryWriter = (options: BinaryOptions = {}): BinaryWriter => {
+  let buffer = new Uint8Array(64)
+  const writer: BinaryWriter = {
+    offset: 0,
+    write: (pc, v) => {
+      const bytes = encode(pc, v, options)
+      if (writer.offset + bytes.length > buffer.length) {
+        const grown = new Uint8Array(2 * (writer.offset + bytes.length))
+        grown.set(buffer)
+        buffer = grown
+      }
+      buffer.set(bytes, writer.offset)
+      writer.offset += bytes.length
+      return writer
+    },
+    bytes: () => buffer.slice(0, writer.offset),
+  }
+  return writer
+}
+
+/**
+ * Reads a sequence of fixed-width integers from a buffer.
+ *
+ * @field offset The position in the buffer to read the next value from
+ * @field read Decodes a value of the type of `pc` at `offset` and advances
+ *        `offset` past it
+ * @field done Whether `offset` has reached the end of the buffer
+ *
+ * @see {@link BinaryReader} for the factory function
+ */
+export type BinaryReader = {
+  offset: number
+  read: <P extends VARINT> (pc: PrimConstructor<P>) => P
+  done: () => boolean
+}
+
+/**
+ * Creates a `BinaryReader`, which reads a sequence of fixed-width integers
+ * from `bytes`.
+ *
+ * ```ts
+ * import { Int8, Int24, Big96, BinaryReader } from 'ts-prims'
+ *
+ * const reader = BinaryReader(bytes)
+ * reader.read(Int8) // 1
+ * reader.read(Int24) // -2
+ * reader.read(Big96) // 3n
+ * reader.done() // true
+ * ```
+ *
+ * @param bytes The bytes to read from
+ * @param options The decoding options, used for all values
+ * @returns The binary reader
+ * @throws `PrimError` from `read` when there are not enough bytes left, or
+ *         when the decoded value is not of the requested type
+ *
+ * @see {@link BinaryWriter} for the reverse operation
+ */
+export const BinaryReader =
+  (bytes: Uint8Array, options: BinaryOptions = {}): BinaryReader => {
+    const reader: BinaryReader = {
+      offset: 0,
+      read: (pc) => {
+        const n = byteLength(pc)
+        const value = decode(pc,
+          bytes.subarray(reader.offset, reader.offset + n), options
+        )
+        reader.offset += n
+        return value
+      },
+      done: () => reader.offset >= bytes.length,
+    }
+    return reader
+  }
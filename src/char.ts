@@ -0,0 +1,167 @@
+/** Copyright 2025 by Stijn de Witt, some rights reserved */
+import type { PRIM, Constraint, PrimConstructor } from './prim.js'
+import { type prim, Prim, constraint, display, primIssue,
+  transform } from './prim.js'
+import type { Chars } from './chars.js'
+import { type LengthUnit, lengthIn, lengthUnitNames } from './length.js'
+import { type varchar, Varchar } from './varchar.js'
+import { unitName } from './unit.js'
+import { register } from './registry.js'
+
+/**
+ * Constrains a string type to the exact length `N`.
+ *
+ * Use this type in combination with `fixedConstraint` for runtime presence.
+ *
+ * @template N The exact length
+ *
+ * @see {@link fixedConstraint} for the runtime constraint
+ * @see {@link char} for the fixed-length string type
+ */
+export type fixed<N extends Chars> =
+  { fixed: N }
+
+/**
+ * A fixed-length string with a length of exactly `N`, like SQL's `char`.
+ *
+ * `N` must be a literal positive integer number in the range 0 .. 256.
+ *
+ * This type is meant to model fixed-length codes, such as ISO country codes
+ * and currency codes. A `char<N>` is a `varchar<N>` with a fixed length, so
+ * it is assignable to `varchar<N>`, but not the other way round:
+ *
+ * ```ts
+ * import type { char, varchar } from 'ts-prims'
+ *
+ * let code: char<3> = 'EUR' as char<3>
+ * let str: varchar<3> = code // ok
+ * code = str // error
+ * // Type 'varchar<3>' is not assignable to type 'char<3>'.
+ * ```
+ *
+ * @template N The exact length
+ *
+ * @see {@link Char} for the constructor
+ * @see {@link varchar} for variable-length strings
+ */
+export type char<N extends Chars> =
+  prim<varchar<N>, fixed<N>>
+
+/** Utility to generate a runtime constraint for the exact length `l` */
+export type FixedConstraint =
+  <L extends Chars> (l: L, unit?: LengthUnit) => Constraint
+
+/**
+ * Generates a runtime constraint constraining a string type to values with
+ * at least length `l`, measured in `unit`.
+ *
+ * Combine it with `charsConstraint` for the maximum, as `Char` does through
+ * its super constructor `Varchar`, to get an exact length.
+ *
+ * @param l The exact length
+ * @param unit The unit the length is measured in, defaults to `'utf16'`
+ * @returns The fixed length constraint
+ *
+ * @see {@link fixed} for the compile-time component
+ */
+export const fixedConstraint: FixedConstraint =
+  <L extends Chars> (l: L, unit: LengthUnit = 'utf16') =>
+  constraint('fixed', { length: l, unit },
+    <P extends PRIM> (pc: PrimConstructor<P>, v: PRIM) =>
+    (typeof v == 'string') && (lengthIn(v, unit) >= l) ? undefined :
+    primIssue(pc, v, 'too_short',
+      `${display(v)} is not assignable to '${pc.name}'.\n` +
+      `  Length is less than ${l}` +
+      `${unit == 'utf16' ? '' : ` ${lengthUnitNames[unit]}`}.`,
+      { min: l, unit }
+    )
+  )
+
+/**
+ * Returns a transform that right-pads strings with spaces to length `l`,
+ * measured in `unit`, after removing any trailing spaces, like SQL's `char`
+ * does.
+ *
+ * @param l The length to pad to
+ * @param unit The unit the length is measured in, defaults to `'utf16'`
+ * @returns The padding transform
+ */
+export const pad = (l: number, unit: LengthUnit = 'utf16') =>
+  transform('pad', { length: l, unit }, (v: PRIM) => {
+    if (typeof v != 'string') return v
+    const s = v.replace(/ +$/, '')
+    return s + ' '.repeat(Math.max(0, l - lengthIn(s, unit)))
+  })
+
+/**
+ * The options for {@link Char}.
+ *
+ * @field unit The unit the length is measured in, defaults to `'utf16'`
+ * @field pad Whether to use SQL `CHAR` padding, defaults to `false`
+ */
+export type CharOptions = {
+  unit?: LengthUnit
+  pad?: boolean
+}
+
+/**
+ * The constructor for `char<N>`, which can compare values.
+ *
+ * @template N The exact length
+ *
+ * @see {@link Char}
+ */
+export type CharConstructor<N extends Chars> =
+  PrimConstructor<char<N>> & {
+    /**
+     * Compares `a` and `b`. In padding mode, trailing spaces are ignored,
+     * like SQL does for `CHAR` values.
+     */
+    equals: (a: string, b: string) => boolean
+  }
+
+/**
+ * The prim factory function for `char`.
+ *
+ * Returns the prim constructor for `char<N>`, based on the given `n`:
+ *
+ * ```ts
+ * const Currency = Char(3)
+ * Currency('EUR') // ok
+ * Currency('EU') // runtime error
+ * // PrimError: "EU" is not assignable to 'char<3>'.
+ * //   Length is less than 3.
+ * ```
+ *
+ * In padding mode, shorter input is right-padded with spaces and trailing
+ * spaces are ignored on comparison, like SQL's `CHAR`:
+ *
+ * ```ts
+ * const Code = Char(4, { pad: true })
+ * Code.name // 'char<4, pad>'
+ * Code('AB') // 'AB  '
+ * Code('AB    ') // 'AB  '
+ * Code.equals('AB', Code('AB')) // true
+ * ```
+ *
+ * @param n The exact length for the char type.
+ *    Must be a positive integer number in the range `0` .. `256`.
+ * @param options The length unit and padding mode
+ *
+ * @returns The prim type constructor function for `char<N>`
+ *
+ * @see {@link CharOptions}
+ */
+export const Char = <N extends Chars> (
+  n: N, { unit = 'utf16', pad: padding = false }: CharOptions = {}
+): CharConstructor<N> => {
+  const name = unitName(`char<${n}>`, unit)
+  const result = Prim<char<N>>(
+    padding ? `${name.slice(0, -1)}, pad>` : name,
+    Varchar(n, unit), [ fixedConstraint(n, unit) ],
+    padding ? [ pad(n, unit) ] : []
+  ) as CharConstructor<N>
+  const trailing = (v: string) => padding ? v.replace(/ +$/, '') : v
+  result.equals = (a, b) => trailing(a) === trailing(b)
+  return register(result)
+}
@@ -1,6 +1,7 @@
 import type { PRIM, Constraint, PrimConstructor } from './prim.js'
-import { type ShortLength, type ShortLengthChars, shortLengthChars } from './length.js'
-import { display } from './prim.js'
+import { type ShortLength, type ShortLengthChars, type LengthUnit,
+  shortLengthChars, lengthIn, lengthExceeds } from './length.js'
+import { constraint, display, primIssue } from './prim.js'
 import { type Lte } from './util.js'
 
 /**
@@ -39,7 +40,7 @@ import { type Lte } from './util.js'
  * const Zipcode = Varchar(5)
  * let zip: zipcode = Zipcode('90210') // ok
  * let oops: zipcode = Zipcode('Too long!') // runtime error
- * // TypeError: "Too long!" is not assignable to 'varchar<5>'.
+ * // PrimError: "Too long!" is not assignable to 'varchar<5>'.
  * //   Length exceeds 5.
  * ```
  */
@@ -71,7 +72,7 @@ export type chars<L extends Chars> = {
  * const Zipcode = Varchar(5)
  * let zip: zipcode = Zipcode('90210') // ok
  * let oops: zipcode = Zipcode('Too long!') // runtime error
- * // TypeError: "Too long!" is not assignable to 'varchar<5>'.
+ * // PrimError: "Too long!" is not assignable to 'varchar<5>'.
  * //   Length exceeds 5.
  * ```
  *
@@ -105,17 +106,26 @@ export const lengthOf = <L extends Chars> (l: L) =>
 
 /** Utility type to constrain a type to the given length in chars `L`. */
 export type CharsConstraint =
-  <L extends Chars> (l: L) =>
+  <L extends Chars> (l: L, unit?: LengthUnit) =>
   Constraint
 
-/** Constrains a type to the given length in chars `L`. */
+/**
+ * Constrains a type to the given length in chars `L`, measured in `unit`.
+ *
+ * @param l The length in chars
+ * @param unit The unit the length is measured in, defaults to `'utf16'`
+ * @returns The chars constraint
+ *
+ * @see {@link LengthUnit}
+ */
 export const charsConstraint: CharsConstraint =
-  <L extends Chars> (l: L) => {
-    console.info(`charsConstraint(${l})`)
-    return <P extends PRIM> (pc: PrimConstructor<P>, v: PRIM) => {
-      console.info(`charsConstraint(${l}):`, v)
-      return (typeof v == 'string') && (v.length <= l) ? undefined :
-        `${display(v)} is not assignable to '${pc.name}'.\n` +
-        `  Length exceeds ${l}.`
-    }
-  }
+  <L extends Chars> (l: L, unit: LengthUnit = 'utf16') =>
+  constraint('chars', { chars: l, length: lengthOf(l), max: l, unit },
+    <P extends PRIM> (pc: PrimConstructor<P>, v: PRIM) =>
+    (typeof v == 'string') && (lengthIn(v, unit) <= l) ? undefined :
+    primIssue(pc, v, 'too_long',
+      `${display(v)} is not assignable to '${pc.name}'.\n` +
+      `  ${lengthExceeds(l, unit)}`,
+      { max: l, unit }
+    )
+  )
@@ -1,5 +1,8 @@
 import { type length, lengthConstraint } from './length.js'
 import { type prim, Prim } from './prim.js'
+import { register } from './registry.js'
+// for linking from jsdoc comments:
+import type { measuredIn } from './unit.js'
 
 /**
  * **C**haracter **L**arge **Ob**ject.
@@ -40,8 +43,11 @@ export type clob =
  * x = Clob('Checked at runtime')
  * ```
  *
+ * Use `measuredIn` to measure its length in a different `LengthUnit`.
+ *
  * @see {@link clob}
+ * @see {@link measuredIn}
  */
-export const Clob = Prim<clob>(
+export const Clob = register(Prim<clob>(
   `clob`, String, lengthConstraint(15)
-)
+))
@@ -0,0 +1,122 @@
+/** Copyright 2025 by Stijn de Witt, some rights reserved */
+import type { PrimConstructor } from './prim.js'
+import { PrimError, primTypeOf } from './prim.js'
+import type { VARINT } from './varint.js'
+import { isInteger } from './varint.js'
+// For linking from jsdoc comments
+import type { IntegerType } from './varint.js'
+import type { width, uwidth } from './width.js'
+
+/**
+ * The integer values that can be widened to the integer type `T`.
+ *
+ * These are all `number` and `bigint` values with a `width` (and `uwidth`)
+ * tag that is assignable to that of `T`, regardless of whether `T` itself is
+ * backed by `number` or `bigint`:
+ *
+ * ```ts
+ * type X = Widening<big64>
+ * // type X = VARINT & { width: Lte<8> }
+ * ```
+ *
+ * @template T The integer type to widen to
+ *
+ * @see {@link widen}
+ * @see {@link width}
+ * @see {@link uwidth}
+ */
+export type Widening<T extends VARINT> =
+  VARINT & Pick<T, Extract<keyof T, 'width' | 'uwidth'>>
+
+/** The kinds of constraints that put bounds on a number */
+const boundsKinds = [ 'width', 'uwidth', 'range' ]
+
+/** The kinds of constraints that `Widening` guarantees at compile time */
+const wideningKinds = [ 'super', 'integer', 'width', 'uwidth' ]
+
+/** Converts `v` to the underlying type of `pc`, `number` or `bigint` */
+const convert = <T extends VARINT> (pc: PrimConstructor<T>, v: VARINT) =>
+  (primTypeOf(pc) == 'number' ? Number(v) : BigInt(v)) as T
+
+/**
+ * Widens the integer `v` to the integer type of constructor `pc`.
+ *
+ * Widening accepts only integers with a smaller or equal width than the
+ * target type. It converts between `number` and `bigint` as needed, based on
+ * the `IntegerType` of the target type:
+ *
+ * ```ts
+ * import { Int32, Big64, widen } from 'ts-prims'
+ *
+ * const x = Int32(1000)
+ * const y = widen(Big64, x) // 1000n, typed as `big64`
+ *
+ * const z = widen(Int32, Big128(1000n)) // compile error
+ * // Argument of type 'big128' is not assignable to parameter of type
+ * // 'Widening<int32>'.
+ * ```
+ *
+ * When the target type only has width constraints, widening can never fail.
+ * `Widening` does not check other constraints, like a range, so when the
+ * target type has any, `v` is checked against them at runtime:
+ *
+ * ```ts
+ * const Port = Prim<int32>('port', Int32, rangeConstraint(1, 65535))
+ * widen(Port, Int8(0)) // runtime error
+ * // PrimError: 0 is not assignable to 'port'.
+ * //   Not in range 1 .. 65535.
+ * ```
+ *
+ * @template T The integer type to widen to
+ * @template F The integer type to widen from
+ * @param pc The constructor of the integer type to widen to
+ * @param v The integer to widen
+ * @returns `v`, converted to `T`
+ * @throws `PrimError` if `v` does not satisfy the constraints of `T` other
+ *         than its width
+ *
+ * @see {@link narrow} for the checked conversion the other way round
+ * @see {@link Widening}
+ * @see {@link IntegerType}
+ */
+export const widen =
+  <T extends VARINT, F extends Widening<T>> (pc: PrimConstructor<T>, v: F) =>
+  pc.constraints.every(c => c.meta && wideningKinds.includes(c.meta.kind)) ?
+  convert(pc, v) :
+  pc.to(convert(pc, v))
+
+/**
+ * Narrows the integer `v` to the integer type of constructor `pc`.
+ *
+ * Unlike `widen`, `narrow` accepts any integer and checks at runtime that it
+ * fits the target type. The range is checked on the exact value of `v`,
+ * before converting between `number` and `bigint` as needed, based on the
+ * `IntegerType` of the target type:
+ *
+ * ```ts
+ * import { Int8, Int54, Varint, narrow } from 'ts-prims'
+ *
+ * const x = narrow(Int54, Varint(8)(1000n)) // 1000, typed as `int54`
+ * const y = narrow(Int8, x) // runtime error
+ * // PrimError: 1000 is not assignable to 'int<1>'.
+ * //   Not in range -128 .. 127.
+ * ```
+ *
+ * @template T The integer type to narrow to
+ * @param pc The constructor of the integer type to narrow to
+ * @param v The integer to narrow
+ * @returns `v`, converted to `T`
+ * @throws `PrimError` if `v` does not fit `T`
+ *
+ * @see {@link widen} for the conversion to wider types
+ * @see {@link IntegerType}
+ */
+export const narrow =
+  <T extends VARINT> (pc: PrimConstructor<T>, v: VARINT): T => {
+    const issue = isInteger(pc, v) || pc.constraints
+      .filter(c => c.meta && boundsKinds.includes(c.meta.kind))
+      .map(c => c(pc, v))
+      .find(issue => issue)
+    if (issue) throw new PrimError(issue)
+    return pc.to(convert(pc, v))
+  }
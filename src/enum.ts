@@ -0,0 +1,152 @@
+/** Copyright 2025 by Stijn de Witt, some rights reserved */
+import type { PRIM, Constraint, Constructor, PrimConstructor,
+  SuperConstructor, PrimTypeOf } from './prim.js'
+import { Prim, constraint, display, primIssue } from './prim.js'
+
+/**
+ * The literal union `V`, as a subtype of the prim type `P`.
+ *
+ * For enums of plain literals, this is just the literal union:
+ *
+ * ```ts
+ * type status = enumeration<'draft' | 'published' | 'archived'>
+ * // type status = 'draft' | 'published' | 'archived'
+ * ```
+ *
+ * For enums on top of an existing prim, each literal is tagged with that
+ * prim, so the enum is assignable to it:
+ *
+ * ```ts
+ * type http_status = enumeration<200 | 404 | 500, int16>
+ * let status: http_status = HttpStatus(404)
+ * let code: int16 = status // ok
+ * status = code // error
+ * // Type 'int16' is not assignable to type 'http_status'.
+ * ```
+ *
+ * @template V The literal union
+ * @template P The prim type the enum is based on, defaults to the primitive
+ *           type of `V`
+ *
+ * @see {@link Enum} for the constructor
+ */
+export type enumeration<V extends PRIM, P extends PRIM = PrimTypeOf<V>> =
+  V & P
+
+/** Utility to generate a runtime constraint for the enum `values` */
+export type EnumConstraint =
+  (values: readonly PRIM[]) => Constraint
+
+/**
+ * Generates a runtime constraint constraining some type to the given
+ * `values`.
+ *
+ * @param values The allowed values
+ * @returns The enum constraint
+ *
+ * @see {@link Enum}
+ */
+export const enumConstraint: EnumConstraint =
+  (values: readonly PRIM[]) => {
+    const allowed = new Set(values)
+    const problem = `Not one of ${values.map(display).join(', ')}.`
+    return constraint('enum', { values: [ ...values ] },
+      <P extends PRIM> (pc: PrimConstructor<P>, v: PRIM) =>
+      allowed.has(v) ? undefined :
+      primIssue(pc, v, 'not_in_enum',
+        `${display(v)} is not assignable to '${pc.name}'.\n` +
+        `  ${problem}`,
+        { values: [ ...values ] }
+      )
+    )
+  }
+
+/**
+ * The constructor for the enum type `E`, which exposes the allowed `values`.
+ *
+ * @template E The enum type
+ *
+ * @see {@link Enum}
+ */
+export type EnumConstructor<E extends PRIM> =
+  PrimConstructor<E> & {
+    values: readonly E[]
+  }
+
+/** The native constructors for the primitive types, by `typeof` */
+const natives: { [type: string]: Constructor<PRIM> } = {
+  boolean: Boolean, string: String, number: Number, bigint: BigInt
+}
+
+/**
+ * Returns a constructor for the closed set of literal `values`.
+ *
+ * The type of the enum is the literal union of the `values` and the runtime
+ * check is a membership test:
+ *
+ * ```ts
+ * import { Enum } from 'ts-prims'
+ *
+ * const Status = Enum('status', [ 'draft', 'published', 'archived' ] as const)
+ * type status = ReturnType<typeof Status>
+ * // type status = 'draft' | 'published' | 'archived'
+ * Status.values // [ 'draft', 'published', 'archived' ]
+ * Status('draft') // ok
+ * Status('deleted') // runtime error
+ * // PrimError: "deleted" is not assignable to 'status'.
+ * //   Not one of "draft", "published", "archived".
+ * ```
+ *
+ * Pass a constructor `pc` to base the enum on an existing prim. The values
+ * are checked against `pc` when the enum is created:
+ *
+ * ```ts
+ * import { Enum, Int16 } from 'ts-prims'
+ *
+ * const HttpStatus = Enum('http_status', [ 200, 404, 500 ] as const, Int16)
+ * type http_status = ReturnType<typeof HttpStatus>
+ * // type http_status = enumeration<200 | 404 | 500, int16>
+ * ```
+ *
+ * Without `pc`, the values are checked against the native constructor for
+ * the type of the first value, so they must all have the same type:
+ *
+ * ```ts
+ * Enum('mixed', [ 'a', 1 ] as const) // runtime error
+ * // PrimError: 1 is not assignable to type 'mixed'.
+ * //   Supertypes do not match: number, string.
+ * ```
+ *
+ * @template V The type of the array of values
+ * @template P The prim type the enum is based on
+ * @param name The name of the enum type, e.g. `'status'`
+ * @param values The allowed values, declared `as const`
+ * @param pc The constructor of the prim type the enum is based on, defaults
+ *        to the native constructor for the type of the values
+ * @returns The constructor for the enum type
+ * @throws `TypeError` if `values` is empty
+ * @throws `PrimError` if any of the values is not of the type of `pc`
+ *
+ * @see {@link enumeration}
+ * @see {@link enumConstraint}
+ */
+export const Enum = <
+  V extends readonly PRIM[],
+  P extends PRIM = PrimTypeOf<V[number]>
+> (
+  name: string,
+  values: V,
+  pc: Constructor<P> = natives[typeof values[0]] as Constructor<P>
+): EnumConstructor<enumeration<V[number], P>> => {
+  if (!pc) throw new TypeError(`Enum '${name}' needs at least one value.`)
+  type E = enumeration<V[number], P>
+  // a native constructor only checks the primitive type of the values
+  const base = 'super' in pc ? pc :
+    Prim<P>(name, pc as unknown as SuperConstructor<P>, [])
+  values.forEach(v => base.as(v))
+  const result = Prim<E>(
+    name, pc as unknown as SuperConstructor<E>, enumConstraint(values)
+  ) as EnumConstructor<E>
+  result.values = values as readonly PRIM[] as readonly E[]
+  return result
+}
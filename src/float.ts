@@ -0,0 +1,211 @@
+/** Copyright 2025 by Stijn de Witt, some rights reserved */
+import type { PRIM, Constraint, PrimConstructor,
+  SuperConstructor } from './prim.js'
+import { type prim, Prim, constraint, display, primIssue } from './prim.js'
+import { type range, rangeConstraint } from './range.js'
+import { fround } from './transform.js'
+import { register } from './registry.js'
+// For linking from jsdoc comments
+import type { int } from './int.js'
+
+/** The sizes in bits of the IEEE 754 floating point types */
+export type FloatBits = 32 | 64
+
+/**
+ * Floating point type with `B` bits.
+ *
+ * A `float<64>` is any finite number. A `float<32>` is a finite number that
+ * can be represented as a 32-bit float, which is assignable to `float<64>`,
+ * but not the other way round. The low-width integer types are assignable to
+ * `float<64>`, but not to `float<32>`:
+ *
+ * ```ts
+ * import type { float32, float64, int32 } from 'ts-prims'
+ *
+ * let f: float32 = 0.5 as float32
+ * let d: float64 = f // ok
+ * let i: int32 = 1000 as int32
+ * d = i // ok
+ * f = d // error
+ * // Type 'float64' is not assignable to type 'float32'.
+ * i = d // error
+ * // Type 'float64' is not assignable to type 'int32'.
+ * ```
+ *
+ * Finiteness and precision are only checked at runtime.
+ *
+ * @template B The size in bits
+ *
+ * @see {@link Float} for the constructor
+ * @see {@link int} for the integer types
+ */
+export type float<B extends FloatBits = 64> =
+  prim<number, B extends 32 ? { float: 32 } : { float?: FloatBits }>
+
+/** 32-bit (single precision) floating point type */
+export type float32 = float<32>
+
+/** 64-bit (double precision) floating point type */
+export type float64 = float<64>
+
+/**
+ * Constrains a number type to values that are not negative.
+ *
+ * @see {@link ufloat} for the non-negative floating point types
+ */
+export type nonnegative =
+  { nonnegative: true }
+
+/**
+ * Non-negative floating point type with `B` bits.
+ *
+ * @template B The size in bits
+ *
+ * @see {@link Ufloat32} and {@link Ufloat64} for the constructors
+ */
+export type ufloat<B extends FloatBits = 64> =
+  prim<float<B>, nonnegative>
+
+/** Non-negative 32-bit floating point type */
+export type ufloat32 = ufloat<32>
+
+/** Non-negative 64-bit floating point type */
+export type ufloat64 = ufloat<64>
+
+/**
+ * Floating point number in the unit interval `0` .. `1`, e.g. a probability
+ * or a ratio.
+ *
+ * @see {@link UnitInterval} for the constructor
+ */
+export type unitInterval =
+  prim<ufloat64, range<0, 1>>
+
+/**
+ * Constraint that values must be finite numbers, i.e. not `NaN`, `Infinity`
+ * or `-Infinity`.
+ *
+ * @param pc The prim constructor
+ * @param v The value to check
+ * @returns `undefined` if `v` is a finite number, otherwise a `PrimIssue`
+ */
+export const finite: Constraint = constraint('finite', {},
+  <P extends PRIM> (pc: PrimConstructor<P>, v: PRIM) =>
+  (typeof v == 'number') && Number.isFinite(v) ? undefined :
+  primIssue(pc, v, 'not_finite',
+    `${display(v)} is not assignable to '${pc.name}'.\n` +
+    `  Not a finite number.`
+  )
+)
+
+/** Utility to generate a runtime constraint for floats with `bits` bits */
+export type FloatConstraint =
+  (bits: FloatBits) => Constraint
+
+/**
+ * Generates a runtime constraint constraining a number type to values that
+ * can be represented exactly as floats with `bits` bits.
+ *
+ * Every number is a 64-bit float, so only 32-bit floats are checked, by
+ * verifying that `Math.fround(v) === v`.
+ *
+ * @param bits The size of the floats in bits
+ * @returns The float constraint
+ *
+ * @see {@link float} for the compile-time component
+ */
+export const floatConstraint: FloatConstraint =
+  (bits: FloatBits) =>
+  constraint('float', { bits },
+    <P extends PRIM> (pc: PrimConstructor<P>, v: PRIM) =>
+    (typeof v == 'number') && (bits == 64 || Math.fround(v) === v) ?
+    undefined :
+    primIssue(pc, v, 'not_representable',
+      `${display(v)} is not assignable to '${pc.name}'.\n` +
+      `  Not representable as a ${bits}-bit float.`,
+      { bits }
+    )
+  )
+
+/**
+ * The options for {@link Float}.
+ *
+ * @field round Whether to round values to the nearest float with the given
+ *        number of bits, instead of rejecting them, defaults to `false`
+ */
+export type FloatOptions = {
+  round?: boolean
+}
+
+/**
+ * The prim factory function for `float`.
+ *
+ * Returns the prim constructor for `float<B>`, based on the given `bits`:
+ *
+ * ```ts
+ * const F32 = Float(32)
+ * F32(0.5) // ok
+ * F32(0.1) // runtime error
+ * // PrimError: 0.1 is not assignable to 'float<32>'.
+ * //   Not representable as a 32-bit float.
+ * F32(NaN) // runtime error
+ * // PrimError: NaN is not assignable to 'float<32>'.
+ * //   Not a finite number.
+ * ```
+ *
+ * In rounding mode, values are rounded to the nearest float instead:
+ *
+ * ```ts
+ * const Rounded = Float(32, { round: true })
+ * Rounded.name // 'float<32, round>'
+ * Rounded(0.1) // 0.10000000149011612
+ * ```
+ *
+ * Every number is a 64-bit float already, so rounding only applies to 32
+ * bits and `Float(64, { round: true })` is just `Float64`.
+ *
+ * @param bits The size of the floats in bits, `32` or `64`, defaults to `64`
+ * @param options The rounding mode
+ * @returns The prim constructor function for `float<B>`
+ *
+ * @see {@link FloatOptions}
+ */
+export const Float = <B extends FloatBits = 64> (
+  bits: B = 64 as B, { round = false }: FloatOptions = {}
+) =>
+  register(Prim<float<B>>(
+    round && bits == 32 ? `float<${bits}, round>` : `float<${bits}>`,
+    Number as SuperConstructor<float<B>>,
+    bits == 32 ? [ finite, floatConstraint(bits) ] : [ finite ],
+    round && bits == 32 ? [ fround ] : []
+  ))
+
+/** Constructor for {@link float32} */
+export const Float32 = Float(32)
+
+/** Constructor for {@link float64} */
+export const Float64 = Float(64)
+
+/** Constructor for {@link ufloat32} */
+export const Ufloat32 = register(
+  Float32.extend<ufloat32>('ufloat<32>', rangeConstraint(0, Infinity))
+)
+
+/** Constructor for {@link ufloat64} */
+export const Ufloat64 = register(
+  Float64.extend<ufloat64>('ufloat<64>', rangeConstraint(0, Infinity))
+)
+
+/**
+ * Constructor for {@link unitInterval}.
+ *
+ * ```ts
+ * UnitInterval(0.25) // ok
+ * UnitInterval(1.5) // runtime error
+ * // PrimError: 1.5 is not assignable to 'unitInterval'.
+ * //   Not in range 0 .. 1.
+ * ```
+ */
+export const UnitInterval = register(
+  Ufloat64.extend<unitInterval>('unitInterval', rangeConstraint(0, 1))
+)
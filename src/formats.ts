@@ -0,0 +1,120 @@
+/** Copyright 2025 by Stijn de Witt, some rights reserved */
+import { type prim, Prim } from './prim.js'
+import { register } from './registry.js'
+import { type varchar, Varchar } from './varchar.js'
+import { type length, lengthConstraint } from './length.js'
+import { type pattern, patternConstraint } from './pattern.js'
+import { trim, lowercase } from './transform.js'
+
+/** A hexadecimal digit, in upper or lower case */
+const hex = '[0-9a-fA-F]'
+
+/**
+ * An email address, with a maximum length of `256` chars.
+ *
+ * The check is deliberately pragmatic: some text, an `@`, and a domain
+ * containing a dot, without whitespace. The constructor trims and lower-cases
+ * its input, so `Email(' Foo@Bar.com ')` yields `'foo@bar.com'`.
+ *
+ * @see {@link Email} The constructor
+ */
+export type email =
+  prim<varchar<256>, pattern<'email'>>
+
+/** Constructor for {@link email} */
+export const Email = register(Prim<email>('email', Varchar(256),
+  patternConstraint(/^[^\s@]+@[^\s@]+\.[^\s@]+$/, 'email'),
+  [ trim, lowercase ]
+))
+
+/**
+ * A UUID in its canonical textual form of `36` chars, e.g.
+ * `'123e4567-e89b-12d3-a456-426614174000'`, in upper or lower case.
+ *
+ * @see {@link Uuid} The constructor
+ */
+export type uuid =
+  prim<varchar<36>, pattern<'uuid'>>
+
+/** Constructor for {@link uuid} */
+export const Uuid = register(Prim<uuid>('uuid', Varchar(36), patternConstraint(
+  new RegExp(`^${hex}{8}-${hex}{4}-${hex}{4}-${hex}{4}-${hex}{12}$`), 'uuid'
+)))
+
+/**
+ * An absolute URL, with a scheme and a host, with a maximum length of
+ * `2048` chars, length `10`.
+ *
+ * @see {@link Url} The constructor
+ */
+export type url =
+  prim<string, length<10> & pattern<'url'>>
+
+/** Constructor for {@link url} */
+export const Url = register(Prim<url>('url', String, [
+  lengthConstraint(10),
+  patternConstraint(/^[a-zA-Z][a-zA-Z0-9+.-]*:\/\/[^\s/?#]+[^\s]*$/, 'url')
+]))
+
+/**
+ * An ISO 8601 calendar date of `10` chars, e.g. `'2025-07-17'`.
+ *
+ * @see {@link IsoDate} The constructor
+ */
+export type isoDate =
+  prim<varchar<10>, pattern<'isoDate'>>
+
+/** The date part of ISO 8601 dates and date-times */
+const date = '\\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\\d|3[01])'
+
+/** The time part of ISO 8601 date-times, including the time zone */
+const time = '([01]\\d|2[0-3]):[0-5]\\d(:[0-5]\\d(\\.\\d+)?)?' +
+  '(Z|[+-]([01]\\d|2[0-3]):[0-5]\\d)'
+
+/** Constructor for {@link isoDate} */
+export const IsoDate = register(Prim<isoDate>('isoDate', Varchar(10),
+  patternConstraint(new RegExp(`^${date}$`), 'isoDate')
+))
+
+/**
+ * An ISO 8601 date and time with a time zone, e.g.
+ * `'2025-07-17T12:34:56.789Z'`, with a maximum length of `64` chars.
+ *
+ * @see {@link IsoDateTime} The constructor
+ */
+export type isoDateTime =
+  prim<varchar<64>, pattern<'isoDateTime'>>
+
+/** Constructor for {@link isoDateTime} */
+export const IsoDateTime = register(Prim<isoDateTime>('isoDateTime',
+  Varchar(64),
+  patternConstraint(new RegExp(`^${date}T${time}$`), 'isoDateTime')
+))
+
+/**
+ * A non-empty string of hexadecimal digits, in upper or lower case, with a
+ * maximum length of `256` chars.
+ *
+ * @see {@link HexString} The constructor
+ */
+export type hexString =
+  prim<varchar<256>, pattern<'hexString'>>
+
+/** Constructor for {@link hexString} */
+export const HexString = register(Prim<hexString>('hexString', Varchar(256),
+  patternConstraint(new RegExp(`^${hex}+$`), 'hexString')
+))
+
+/**
+ * A URL slug of lower case letters and digits, separated by single dashes,
+ * e.g. `'hello-world'`, with a maximum length of `128` chars.
+ *
+ * @see {@link Slug} The constructor
+ */
+export type slug =
+  prim<varchar<128>, pattern<'slug'>>
+
+/** Constructor for {@link slug} */
+export const Slug = register(Prim<slug>('slug', Varchar(128),
+  patternConstraint(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'slug')
+))
@@ -0,0 +1,197 @@
+/** Copyright 2025 by Stijn de Witt, some rights reserved */
+import type { PRIM, Constraint, ConstraintMeta, Constructor } from './prim.js'
+import { constraintsOf, primTypeOf, sameMeta } from './prim.js'
+import type { Bound } from './range.js'
+import type { LengthUnit } from './length.js'
+import { Int8, Int16, Int24, Int32, Int40, Int48, Int54 } from './int.js'
+import { Uint8, Uint16, Uint24, Uint32, Uint40, Uint48,
+  Uint54 } from './uint.js'
+import { Big64, Big96, Big128, Big160, Big192, Big256, Big512,
+  Big4K } from './big.js'
+import { Ubig64, Ubig96, Ubig128, Ubig160, Ubig192, Ubig256, Ubig512,
+  Ubig4K } from './ubig.js'
+import { Float32, Float64 } from './float.js'
+import { Memo } from './memo.js'
+import { Text } from './text.js'
+import { Clob } from './clob.js'
+// For linking from jsdoc comments
+import type { width, uwidth } from './width.js'
+import type { length } from './length.js'
+import type { chars } from './chars.js'
+
+/**
+ * The length units, ordered so that a length measured in a unit is never
+ * greater than the length of the same string measured in a later unit.
+ */
+const units: LengthUnit[] = [ 'grapheme', 'codepoint', 'utf16', 'utf8' ]
+
+/** Whether a max length in `a` implies the same max length in `b` */
+const measures = (a: PRIM | PRIM[], b: PRIM | PRIM[]) =>
+  units.indexOf(a as LengthUnit) >= units.indexOf(b as LengthUnit)
+
+/** Whether the values `a` are all included in the values `b` */
+const included = (a: PRIM | PRIM[], b: PRIM | PRIM[]) =>
+  (a as PRIM[]).every(v => (b as PRIM[]).includes(v))
+
+/**
+ * Whether the constraint with metadata `a` implies the constraint with
+ * metadata `b`, i.e. whether every value satisfying `a` satisfies `b`.
+ */
+const implies = ({ kind, params: p }: ConstraintMeta, b: ConstraintMeta) => {
+  const q = b.params
+  switch (b.kind) {
+    case 'width': return (
+      (kind == 'width') && (p.width <= q.width) ||
+      (kind == 'uwidth') && (p.width < q.width)
+    )
+    case 'uwidth': return (kind == 'uwidth') && (p.width <= q.width)
+    case 'range': return (
+      (kind == 'range' || kind == 'width' || kind == 'uwidth') &&
+      ((p.min as Bound) >= (q.min as Bound)) &&
+      ((p.max as Bound) <= (q.max as Bound))
+    )
+    case 'length':
+    case 'chars': return (
+      (kind == 'length' || kind == 'chars') &&
+      (p.max <= q.max) && measures(p.unit, q.unit)
+    )
+    case 'fixed': return (
+      (kind == 'fixed') && (p.length == q.length) && (p.unit == q.unit)
+    )
+    case 'pattern': return (
+      (kind == 'pattern') && (p.pattern == q.pattern) && (p.flags == q.flags)
+    )
+    case 'enum': return (kind == 'enum') && included(p.values, q.values)
+    case 'nominal': return (kind == 'nominal') && (p.brand == q.brand)
+    case 'finite': return (kind == 'finite') || (kind == 'integer')
+    case 'float': return (kind == 'float') && (p.bits <= q.bits)
+    // other kinds, like those of custom constraints, by equal metadata
+    default: return sameMeta({ kind, params: p }, b)
+  }
+}
+
+/**
+ * The constructors of the built-in families, which `commonSupertype`
+ * considers besides the ancestors of its arguments.
+ */
+const families = (): Constructor<PRIM>[] => [
+  Int8, Int16, Int24, Int32, Int40, Int48, Int54,
+  Uint8, Uint16, Uint24, Uint32, Uint40, Uint48, Uint54,
+  Big64, Big96, Big128, Big160, Big192, Big256, Big512, Big4K,
+  Ubig64, Ubig96, Ubig128, Ubig160, Ubig192, Ubig256, Ubig512, Ubig4K,
+  Float32, Float64, Memo, Text, Clob,
+]
+
+/** Whether the constraints `a` together imply the constraint `c` */
+const satisfies = (a: Constraint[], c: Constraint) =>
+  a.includes(c) || (c.meta?.kind == 'super') ||
+  a.some(ca => ca.meta && c.meta && implies(ca.meta, c.meta))
+
+/**
+ * Returns the super constructors of `pc`, from its direct `super` up to the
+ * native constructor it is based on.
+ *
+ * ```ts
+ * const Port = Int32.extend('port', rangeConstraint(1, 65535))
+ * ancestors(Port) // [ Int32, Number ]
+ * ancestors(Number) // []
+ * ```
+ *
+ * @template P The primitive type
+ * @param pc The constructor
+ * @returns The ancestors of `pc`, nearest first
+ */
+export const ancestors = <P extends PRIM> (
+  pc: Constructor<P>
+): Constructor<PRIM>[] =>
+  'super' in pc ? [ pc.super, ...ancestors(pc.super) ] : []
+
+/**
+ * Tests whether the type of constructor `a` is a subtype of the type of
+ * constructor `b`, i.e. whether every value of `a` is a value of `b`.
+ *
+ * This is the case when `b` is `a` or one of its `ancestors`, or when both
+ * are based on the same primitive type and the constraints of `a` imply all
+ * constraints of `b`. For the `width`, `uwidth`, `length` and `chars`
+ * constraints, this follows the compile-time tags, so the result agrees with
+ * the compiler:
+ *
+ * ```ts
+ * isSubtypeOf(Int8, Int32) // true
+ * isSubtypeOf(Int32, Int8) // false
+ * isSubtypeOf(Uint8, Int16) // true
+ * isSubtypeOf(Uint8, Int8) // false
+ * isSubtypeOf(Varchar(64), Memo) // true
+ * ```
+ *
+ * Other constraints are implied by constraints of the same kind that are at
+ * least as strict, e.g. a narrower `range` or a subset of `enum` values.
+ * Constraints of other kinds, like custom ones, are implied by constraints
+ * with equal metadata. Constraints without metadata are only implied by
+ * themselves. Lengths are
+ * compared in their units, so a max length in UTF-8 bytes implies the same
+ * max length in UTF-16 code units, but not the other way round.
+ *
+ * @param a The constructor of the candidate subtype
+ * @param b The constructor of the candidate supertype
+ * @returns `true` if values of `a` are assignable to `b`, `false` otherwise
+ *
+ * @see {@link width}
+ * @see {@link uwidth}
+ * @see {@link length}
+ * @see {@link chars}
+ */
+export const isSubtypeOf = <A extends PRIM, B extends PRIM> (
+  a: Constructor<A>,
+  b: Constructor<B>
+): boolean =>
+  (a as Constructor<PRIM>) === b ||
+  ancestors(a).includes(b as Constructor<PRIM>) ||
+  (primTypeOf(a) == primTypeOf(b)) &&
+  constraintsOf(b).every(c => satisfies(constraintsOf(a), c))
+
+/**
+ * Returns the narrowest common supertype of the types of constructors `a`
+ * and `b`, or `undefined` if they are based on different primitive types.
+ *
+ * The candidates are `a`, `b`, their `ancestors` and the constructors of
+ * the built-in families, like `Int16` and `Memo`. Of the candidates that
+ * both `a` and `b` are subtypes of, the narrowest is returned, so the result
+ * agrees with the compiler:
+ *
+ * ```ts
+ * commonSupertype(Varchar(64), Memo) // Memo
+ * commonSupertype(Int8, Int32) // Int32
+ * commonSupertype(Int8, Uint8) // Int16
+ * commonSupertype(Int8, Memo) // undefined
+ * ```
+ *
+ * When several candidates are equally narrow, the first one is returned, in
+ * the order above.
+ *
+ * This makes it suitable to check whether a change of type is safe, e.g.
+ * when migrating a database column: widening is safe when the common
+ * supertype of the old and new type is the new type.
+ *
+ * @param a The first constructor
+ * @param b The second constructor
+ * @returns The narrowest common supertype, or `undefined`
+ *
+ * @see {@link isSubtypeOf}
+ * @see {@link ancestors}
+ */
+export const commonSupertype = <A extends PRIM, B extends PRIM> (
+  a: Constructor<A>,
+  b: Constructor<B>
+): Constructor<PRIM> | undefined =>
+  [
+    a, ...ancestors(a), b, ...ancestors(b),
+    ...families()
+  ]
+    .map(c => c as Constructor<PRIM>)
+    .filter(c => isSubtypeOf(a, c) && isSubtypeOf(b, c))
+    .reduce<Constructor<PRIM> | undefined>((narrowest, c) =>
+      !narrowest || isSubtypeOf(c, narrowest) && !isSubtypeOf(narrowest, c) ?
+        c : narrowest,
+      undefined
+    )
@@ -1,28 +1,82 @@
 /** Copyright 2025 by Stijn de Witt, some rights reserved */
+export type { Overflow, IntegerBounds, Rounding, FitPrim,
+  IntegerConstructor } from './arithmetic.js'
+
+export type { ArrayOptions, ArrayConstructor, tuple,
+  TupleConstructor } from './array.js'
+
+export type { Endian, BinaryOptions } from './binary.js'
+
 export type { big, big64, big96, big128, big160,
   big192, big256, big512, big4K } from './big.js'
 
+export type { fixed, char, FixedConstraint, CharOptions,
+  CharConstructor } from './char.js'
+
 export type { chars, Chars, LengthOf, CharsConstraint } from './chars.js'
 
 export type { clob } from './clob.js'
 
+export type { Widening } from './convert.js'
+
+export type { enumeration, EnumConstraint, EnumConstructor } from './enum.js'
+
+export type { FloatBits, float, float32, float64, nonnegative, ufloat,
+  ufloat32, ufloat64, unitInterval, FloatConstraint,
+  FloatOptions } from './float.js'
+
+export type { email, uuid, url, isoDate, isoDateTime, hexString,
+  slug } from './formats.js'
+
 export type { int, int8, int16, int24, int32,
   int40, int48, int54  } from './int.js'
 
+export type { Leb128Decoded } from './leb128.js'
+
 export type { length, Length, ShortLength, MediumLength, LongLength,
-  LengthConstraint, ShortLengthChars, MediumLengthChars, LongLengthChars
-} from './length.js'
+  LengthConstraint, ShortLengthChars, MediumLengthChars, LongLengthChars,
+  LengthUnit } from './length.js'
 
 export type { memo } from './memo.js'
 
+export type { nominal, NominalConstraint,
+  NominalConstructor } from './nominal.js'
+
+export type { Absent, optional, nullable,
+  OptionalConstructor } from './optional.js'
+
+export type { pattern, PatternConstraint } from './pattern.js'
+
 export type { PRIM, prim, IsPrim, AsPrim, ToPrim, Rtti, Constructor,
   PrimConstructor, SuperConstructor, NativeConstructor, PrimFactory,
-  PrimTypeOf } from './prim.js'
+  PrimTypeOf, IssueCode, IssueParams, IssuePath, PrimIssue, ValidatePrim,
+  ExtendPrim, Validation, ConstraintKind, ConstraintParams, ConstraintMeta,
+  Transform, TransformKind, TransformMeta
+} from './prim.js'
+
+export type { Bound, range, RangeConstraint } from './range.js'
+
+export type { FieldConstructor, Fields, FieldType, OptionalKeys, record,
+  UnknownKeys, RecordOptions, RecordConstructor } from './record.js'
+
+export type { JsonValue, JsonSchema, JsonSchemaKeywords } from './schema.js'
+
+export type { SqlDialect, SqlColumns } from './sql.js'
 
 export type { text } from './text.js'
 
+export type { NormalizationForm } from './transform.js'
+
+export type { ubig, ubig64, ubig96, ubig128, ubig160,
+  ubig192, ubig256, ubig512, ubig4K } from './ubig.js'
+
+export type { uint, uint8, uint16, uint24, uint32,
+  uint40, uint48, uint54 } from './uint.js'
+
 export type { _Lt, Lt, Lte } from './util.js'
 
+export type { uvarint } from './uvarint.js'
+
 export type { varchar } from './varchar.js'
 
 export type { varint, VARINT, IntegerType } from './varint.js'
@@ -30,17 +84,41 @@ export type { varint, VARINT, IntegerType } from './varint.js'
 export type { Width, LowWidth, HighWidth, LowWidthBits, HighWidthBits,
   WidthBitsArray, WidthBits, NativeWidth, NumberWidth, BigIntWidth, _0bit,
   _8bit, _16bit, _24bit, _32bit, _40bit, _48bit, _54bit, _64bit, _96bit,
-  _128bit, _160bit, _192bit, _256bit, _512bit, _4Kbit} from './width.js'
+  _128bit, _160bit, _192bit, _256bit, _512bit, _4Kbit, uwidth,
+  WiderWidth } from './width.js'
 
+export * from './arithmetic.js'
+export * from './array.js'
 export * from './big.js'
+export * from './binary.js'
+export * from './char.js'
 export * from './chars.js'
 export * from './clob.js'
+export * from './convert.js'
+export * from './enum.js'
+export * from './float.js'
+export * from './formats.js'
+export * from './hierarchy.js'
 export * from './int.js'
+export * from './leb128.js'
 export * from './length.js'
 export * from './memo.js'
+export * from './nominal.js'
+export * from './optional.js'
+export * from './pattern.js'
 export * from './prim.js'
+export * from './range.js'
+export * from './record.js'
+export * from './registry.js'
+export * from './schema.js'
+export * from './sql.js'
 export * from './text.js'
+export * from './transform.js'
+export * from './ubig.js'
+export * from './uint.js'
+export * from './unit.js'
 export * from './util.js'
+export * from './uvarint.js'
 export * from './varchar.js'
 export * from './varint.js'
 export * from './width.js'
@@ -3,7 +3,10 @@ import type { width, LowWidth, _8bit, _16bit, _24bit,
 import { widthConstraint } from './width.js'
 import type { big, big64 } from './big.js'
 import { type prim, Prim } from './prim.js'
+import { integerConstructor } from './arithmetic.js'
+import { register } from './registry.js'
 import { type varint, isInteger } from './varint.js'
+import { unsignedZero } from './transform.js'
 
 /**
  * Int type with low int width `W`.
@@ -43,9 +46,10 @@ export type int <W extends LowWidth = 7> =
  * @see {@link int}
  * @see {@link LowWidth}
  */
-export const Int = <W extends LowWidth = 7> (w:W = 7 as W) => Prim<int<W>> (
-  `int<${w}>`, Number, [ isInteger, widthConstraint(w) ]
-)
+export const Int = <W extends LowWidth = 7> (w:W = 7 as W) =>
+  register(integerConstructor(Prim<int<W>> (
+    `int<${w}>`, Number, [ isInteger, widthConstraint(w) ], unsignedZero
+  )))
 
 /**
  * `8`-bit integer in the `LowWidth` (fast) range.
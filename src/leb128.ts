@@ -0,0 +1,129 @@
+/** Copyright 2025 by Stijn de Witt, some rights reserved */
+import type { PrimConstructor } from './prim.js'
+import { PrimError, primIssue, primTypeOf } from './prim.js'
+import { integerBounds } from './arithmetic.js'
+import type { VARINT } from './varint.js'
+// For linking from jsdoc comments
+import type { varint, IntegerType } from './varint.js'
+import type { uvarint } from './uvarint.js'
+
+/**
+ * The result of decoding a variable-length integer.
+ *
+ * @template P The integer type
+ *
+ * @field value The decoded value
+ * @field length The number of bytes the encoded value occupied
+ */
+export type Leb128Decoded<P extends VARINT> = {
+  value: P
+  length: number
+}
+
+/** Maps signed integers to unsigned ones: `0, -1, 1, -2` to `0, 1, 2, 3` */
+const zigzag = (x: bigint) =>
+  x >= 0n ? x << 1n : ((-x) << 1n) - 1n
+
+/** Maps zigzag encoded integers back to signed ones */
+const unzigzag = (x: bigint) =>
+  (x & 1n) ? -(x >> 1n) - 1n : x >> 1n
+
+/**
+ * Encodes `v` as a variable-length LEB128 integer of the type of
+ * constructor `pc`.
+ *
+ * Signed types, like `varint<W>`, are zigzag encoded first, like protobuf's
+ * `sint32` and `sint64`, so small negative numbers stay short. Unsigned types,
+ * like `uvarint<W>`, are encoded as plain unsigned LEB128:
+ *
+ * ```ts
+ * import { Varint, Uvarint, encodeLeb128 } from 'ts-prims'
+ *
+ * encodeLeb128(Varint(4), -1) // Uint8Array(1) [ 1 ]
+ * encodeLeb128(Uvarint(4), 300) // Uint8Array(2) [ 172, 2 ]
+ * ```
+ *
+ * @template P The integer type
+ * @param pc The constructor of the integer type
+ * @param v The value to encode
+ * @returns The encoded bytes
+ * @throws `PrimError` if `v` is not of type `P`
+ *
+ * @see {@link decodeLeb128} for the reverse operation
+ * @see {@link varint}
+ * @see {@link uvarint}
+ */
+export const encodeLeb128 = <P extends VARINT> (
+  pc: PrimConstructor<P>,
+  v: P
+) => {
+  pc.as(v)
+  const { signed } = integerBounds(pc)
+  let x = signed ? zigzag(BigInt(v)) : BigInt(v)
+  const bytes: number[] = []
+  do {
+    const byte = Number(x & 0x7fn)
+    x >>= 7n
+    bytes.push(x ? byte | 0x80 : byte)
+  } while (x)
+  return new Uint8Array(bytes)
+}
+
+/**
+ * Decodes a variable-length LEB128 integer of the type of constructor `pc`
+ * from `bytes`, starting at `offset`.
+ *
+ * The decoded value is a `number` or a `bigint`, depending on the
+ * `IntegerType` of the type. Decoding is safe for untrusted input: it rejects
+ * truncated and over-long encodings, as well as values that overflow the
+ * width of the type:
+ *
+ * ```ts
+ * import { Uvarint, decodeLeb128 } from 'ts-prims'
+ *
+ * decodeLeb128(Uvarint(4), new Uint8Array([ 172, 2 ]))
+ * // { value: 300, length: 2 }
+ * decodeLeb128(Uvarint(4), new Uint8Array([ 172, 130, 0 ])) // runtime error
+ * // PrimError: Encoded 'uvarint<4>' is over-long.
+ * //   Not minimally encoded.
+ * ```
+ *
+ * @template P The integer type
+ * @param pc The constructor of the integer type
+ * @param bytes The bytes to decode from
+ * @param offset The position in `bytes` to start decoding, defaults to `0`
+ * @returns The decoded value and the number of bytes it occupied
+ * @throws `PrimError` if the encoding is truncated or over-long, or if the
+ *         decoded value is not of type `P`
+ *
+ * @see {@link encodeLeb128} for the reverse operation
+ * @see {@link IntegerType}
+ */
+export const decodeLeb128 = <P extends VARINT> (
+  pc: PrimConstructor<P>,
+  bytes: Uint8Array,
+  offset = 0
+): Leb128Decoded<P> => {
+  const { bits, signed } = integerBounds(pc)
+  const max = Math.max(1, Math.ceil(bits / 7))
+  const fail = (problem: string, detail: string) =>
+    new PrimError(primIssue(pc, offset, 'bad_encoding',
+      `Encoded '${pc.name}' is ${problem}.\n` +
+      `  ${detail}.`,
+      { bits, bytes: max }
+    ))
+  let x = 0n, length = 0, byte
+  do {
+    if (offset + length >= bytes.length) throw fail('truncated',
+      `Expected more bytes at offset ${offset + length}`
+    )
+    if (length == max) throw fail('over-long', `Exceeds ${max} bytes`)
+    byte = bytes[offset + length]
+    x |= BigInt(byte & 0x7f) << BigInt(7 * length++)
+  } while (byte & 0x80)
+  if ((length > 1) && !byte) throw fail('over-long', 'Not minimally encoded')
+  if (x >> BigInt(bits)) throw fail('overflowing', `Exceeds ${bits} bits`)
+  if (signed) x = unzigzag(x)
+  const value = pc.to(primTypeOf(pc) == 'number' ? Number(x) : x)
+  return { value, length }
+}
@@ -1,6 +1,6 @@
 import type { Lte } from './util.js'
 import type { PRIM, Constraint, PrimConstructor } from './prim.js'
-import { display } from './prim.js'
+import { constraint, display, primIssue } from './prim.js'
 // For linking from jsdoc comments:
 import type { chars, Chars } from './chars.js'
 
@@ -120,16 +120,102 @@ export type LengthChars = readonly
 export const lengthChars: LengthChars =
   [ ...shortLengthChars, ...mediumLengthChars, ...longLengthChars]
 
+/**
+ * The units in which the length of a string can be measured:
+ *
+ * - `'utf16'`: UTF-16 code units, like `String.length` (the default)
+ * - `'codepoint'`: Unicode code points, so an emoji counts as `1`
+ * - `'grapheme'`: grapheme clusters, i.e. user-perceived characters
+ * - `'utf8'`: bytes in UTF-8 encoding
+ *
+ * Choose the unit that matches the storage the strings end up in, e.g.
+ * `'codepoint'` for MySQL `VARCHAR` columns or `'utf8'` for byte-limited
+ * columns.
+ *
+ * @see {@link lengthIn}
+ */
+export type LengthUnit = 'utf16' | 'codepoint' | 'grapheme' | 'utf8'
+
+/** The names of the length units, as used in error messages */
+export const lengthUnitNames: { [unit in LengthUnit]: string } = {
+  utf16: 'UTF-16 code units',
+  codepoint: 'code points',
+  grapheme: 'grapheme clusters',
+  utf8: 'UTF-8 bytes',
+}
+
+/** The part of the `Intl.Segmenter` API used to count grapheme clusters */
+type SegmenterConstructor = new (
+  locale?: string,
+  options?: { granularity: 'grapheme' }
+) => { segment: (v: string) => Iterable<unknown> }
+
+/** The `Intl.Segmenter`, if the platform supports it */
+const Segmenter =
+  (Intl as typeof Intl & { Segmenter?: SegmenterConstructor }).Segmenter
+
+/**
+ * Measures the length of string `v` in the given `unit`.
+ *
+ * ```ts
+ * lengthIn('👍🏽!') // 5
+ * lengthIn('👍🏽!', 'codepoint') // 3
+ * lengthIn('👍🏽!', 'grapheme') // 2
+ * lengthIn('👍🏽!', 'utf8') // 9
+ * ```
+ *
+ * On platforms without `Intl.Segmenter`, grapheme clusters are counted as
+ * code points.
+ *
+ * @param v The string to measure
+ * @param unit The unit to measure in, defaults to `'utf16'`
+ * @returns The length of `v` in `unit`
+ */
+export const lengthIn = (v: string, unit: LengthUnit = 'utf16') => {
+  if (unit == 'utf16') return v.length
+  if ((unit == 'grapheme') && Segmenter) return [
+    ...new Segmenter(undefined, { granularity: 'grapheme' }).segment(v)
+  ].length
+  let n = 0
+  for (const c of v) {
+    const cp = c.codePointAt(0)!
+    n += unit != 'utf8' ? 1 :
+      cp < 0x80 ? 1 : cp < 0x800 ? 2 : cp < 0x10000 ? 3 : 4
+  }
+  return n
+}
+
+/**
+ * Describes the maximum length `max` in `unit` for error messages. For the
+ * default unit, `'utf16'`, the unit is left out.
+ */
+export const lengthExceeds = (max: number, unit: LengthUnit) =>
+  unit == 'utf16' ? `Length exceeds ${max}.` :
+  `Length exceeds ${max} ${lengthUnitNames[unit]}.`
+
 /** Expresses a length constraint as a function of `L` */
 export type LengthConstraint =
-  <L extends Length> (l: L) => Constraint
+  <L extends Length> (l: L, unit?: LengthUnit) => Constraint
 
-/** Generates a runtime constraint for length `l` */
+/**
+ * Generates a runtime constraint for length `l`, measured in `unit`.
+ *
+ * @param l The length
+ * @param unit The unit the length is measured in, defaults to `'utf16'`
+ * @returns The length constraint
+ *
+ * @see {@link LengthUnit}
+ */
 export const lengthConstraint: LengthConstraint =
-  <L extends Length> (l: L) => {
+  <L extends Length> (l: L, unit: LengthUnit = 'utf16') => {
     const max = lengthChars[l]
-    return <P extends PRIM> (pc: PrimConstructor<P>, v: PRIM) =>
-      (typeof v == 'string') && (v.length <= max) ? undefined :
-      `${display(v)} is not assignable to '${pc.name}'.\n` +
-      `  Length exceeds ${max}.`
+    return constraint('length', { length: l, max, unit },
+      <P extends PRIM> (pc: PrimConstructor<P>, v: PRIM) =>
+      (typeof v == 'string') && (lengthIn(v, unit) <= max) ? undefined :
+      primIssue(pc, v, 'too_long',
+        `${display(v)} is not assignable to '${pc.name}'.\n` +
+        `  ${lengthExceeds(max, unit)}`,
+        { max, unit }
+      )
+    )
   }
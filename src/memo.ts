@@ -1,6 +1,8 @@
 import { type length, lengthConstraint } from './length.js'
 import { type prim, Prim } from './prim.js'
+import { register } from './registry.js'
 // for linking from jsdoc comments:
+import type { measuredIn } from './unit.js'
 import type { clob } from './clob.js'
 import type { varchar } from './varchar.js'
 import type { text } from './text.js'
@@ -46,8 +48,11 @@ export type memo =
  * x = Memo('Hello World!')
  * ```
  *
+ * Use `measuredIn` to measure its length in a different `LengthUnit`.
+ *
  * @see {@link memo}
+ * @see {@link measuredIn}
  */
-export const Memo = Prim<memo> (
+export const Memo = register(Prim<memo> (
   'memo', String, [ lengthConstraint(11) ]
-)
+))
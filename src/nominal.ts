@@ -0,0 +1,131 @@
+/** Copyright 2025 by Stijn de Witt, some rights reserved */
+import type { PRIM, Constraint, Constructor, PrimConstructor,
+  SuperConstructor, Transform } from './prim.js'
+import { type prim, Prim, constraint } from './prim.js'
+
+/**
+ * Brands a type with the name `B`, making it nominal.
+ *
+ * `prim` types are structural: two types with the same supertype and
+ * constraints are the same type and can be mixed up freely. Adding a brand
+ * makes types with different brands mutually unassignable, while keeping the
+ * subtyping that `prim` provides:
+ *
+ * ```ts
+ * import type { prim, width, nominal, int32 } from 'ts-prims'
+ *
+ * type user_id = prim<number, width<4> & nominal<'UserId'>>
+ * type order_id = prim<number, width<4> & nominal<'OrderId'>>
+ * let user: user_id = 1 as user_id
+ * let order: order_id = user // error
+ * // Type 'user_id' is not assignable to type 'order_id'.
+ * let i: int32 = user // ok
+ * user = i // error
+ * // Type 'int32' is not assignable to type 'user_id'.
+ * ```
+ *
+ * Brands accumulate, so a branded subtype of a branded type is assignable to
+ * it, but not the other way round:
+ *
+ * ```ts
+ * type admin_id = prim<user_id, nominal<'AdminId'>>
+ * let admin: admin_id = 1 as admin_id
+ * user = admin // ok
+ * admin = user // error
+ * // Type 'user_id' is not assignable to type 'admin_id'.
+ * ```
+ *
+ * Use this type in combination with `nominalConstraint` for runtime presence.
+ *
+ * @template B The name of the brand
+ *
+ * @see {@link Nominal} for the constructor
+ * @see {@link nominalConstraint} for the runtime constraint
+ */
+export type nominal<B extends string> =
+  { nominal: { [K in B]: true } }
+
+/** Utility to generate a runtime constraint for the brand `brand` */
+export type NominalConstraint =
+  <B extends string> (brand: B) => Constraint
+
+/**
+ * Generates a runtime constraint recording the brand `brand`.
+ *
+ * A brand can not be checked on a primitive value, so this constraint never
+ * reports an issue. It exists so the brand can be introspected at runtime:
+ *
+ * ```ts
+ * constraintMeta(UserId, 'nominal') // { kind: 'nominal', params: {
+ * //   brand: 'UserId'
+ * // } }
+ * ```
+ *
+ * @param brand The name of the brand
+ * @returns The nominal constraint
+ *
+ * @see {@link nominal} for the compile-time component
+ */
+export const nominalConstraint: NominalConstraint =
+  <B extends string> (brand: B) =>
+  constraint('nominal', { brand }, () => undefined)
+
+/**
+ * The constructor for the nominal type `P`, which carries its `brand`.
+ *
+ * @template P The nominal type
+ * @template B The name of the brand
+ *
+ * @see {@link Nominal}
+ */
+export type NominalConstructor<P extends PRIM, B extends string> =
+  PrimConstructor<P> & {
+    brand: B
+  }
+
+/**
+ * Returns a constructor for a nominal subtype of the type of `pc`, branded
+ * with the name `brand`.
+ *
+ * The constructor is named after the brand and accepts the same values as
+ * `pc`, but its type is not assignable to other nominal types, even when
+ * they are based on the same `pc`:
+ *
+ * ```ts
+ * import { Nominal, Int32 } from 'ts-prims'
+ *
+ * const UserId = Nominal('UserId', Int32)
+ * const OrderId = Nominal('OrderId', Int32)
+ * type user_id = ReturnType<typeof UserId>
+ * // type user_id = prim<int32, nominal<'UserId'>>
+ * UserId.name // 'UserId'
+ * UserId.brand // 'UserId'
+ * let user: user_id = UserId(1) // ok
+ * user = OrderId(1) // error, the brands differ
+ * ```
+ *
+ * @template B The name of the brand
+ * @template P The prim type the nominal type is based on
+ * @param brand The name of the brand, e.g. `'UserId'`
+ * @param pc The constructor of the prim type the nominal type is based on
+ * @param constraints Optional additional constraints for the nominal type
+ * @param transforms Optional additional transforms for the nominal type
+ * @returns The constructor for the nominal type
+ *
+ * @see {@link nominal}
+ * @see {@link nominalConstraint}
+ */
+export const Nominal = <B extends string, P extends PRIM> (
+  brand: B,
+  pc: Constructor<P>,
+  constraints: Constraint | Constraint[] = [],
+  transforms: Transform | Transform[] = []
+): NominalConstructor<prim<P, nominal<B>>, B> => {
+  type N = prim<P, nominal<B>>
+  const result = Prim<N>(brand, pc as unknown as SuperConstructor<N>, [
+    nominalConstraint(brand),
+    ...(Array.isArray(constraints) ? constraints : [ constraints ])
+  ], transforms) as NominalConstructor<N, B>
+  result.brand = brand
+  return result
+}
@@ -0,0 +1,149 @@
+/** Copyright 2025 by Stijn de Witt, some rights reserved */
+import type { PRIM, Constructor, PrimConstructor,
+  Validation } from './prim.js'
+
+/**
+ * The values representing the absence of a value: `null` and `undefined`.
+ */
+export type Absent = null | undefined
+
+/**
+ * The prim type `P`, or `undefined`.
+ *
+ * ```ts
+ * type nickname = optional<varchar<64>>
+ * // type nickname = varchar<64> | undefined
+ * ```
+ *
+ * @template P The primitive type
+ *
+ * @see {@link Optional} for the constructor
+ */
+export type optional<P extends PRIM> = P | undefined
+
+/**
+ * The prim type `P`, or `null`.
+ *
+ * ```ts
+ * type middle_name = nullable<varchar<64>>
+ * // type middle_name = varchar<64> | null
+ * ```
+ *
+ * @template P The primitive type
+ *
+ * @see {@link Nullable} for the constructor
+ */
+export type nullable<P extends PRIM> = P | null
+
+/**
+ * The constructor for the prim type `P`, or the absent value `A`.
+ *
+ * It has the same `to`, `is`, `as` and `validate` surface as a
+ * `PrimConstructor`, but accepts `A` as well. Its metadata marks it as
+ * `nullable`, with `absent` holding the accepted absent value and `of`
+ * holding the constructor for `P`.
+ *
+ * @template P The primitive type
+ * @template A The absent value, `null` or `undefined`
+ *
+ * @see {@link Optional}
+ * @see {@link Nullable}
+ */
+export type OptionalConstructor<P extends PRIM, A extends Absent> = {
+  (v: PRIM | Absent): P | A
+  name: string
+  of: PrimConstructor<P>
+  nullable: true
+  absent: A
+  to: (v: PRIM | Absent) => P | A
+  is: (v: PRIM | Absent) => v is P | A
+  as: (v: PRIM | Absent) => asserts v is P | A
+  validate: (v: PRIM | Absent) => Validation<P | A>
+}
+
+/**
+ * Tests whether `pc` is an `OptionalConstructor`, i.e. the result of
+ * `Optional` or `Nullable`.
+ *
+ * @param pc The constructor to test
+ * @returns `true` if `pc` accepts an absent value, `false` otherwise
+ */
+export const isOptional = <P extends PRIM> (
+  pc: Constructor<P> | OptionalConstructor<P, Absent>
+): pc is OptionalConstructor<P, Absent> =>
+  'nullable' in pc && pc.nullable === true
+
+/**
+ * Wraps the constructor `pc` to accept the absent value `absent` as well.
+ */
+const wrap = <P extends PRIM, A extends Absent> (
+  pc: PrimConstructor<P>, absent: A
+): OptionalConstructor<P, A> => {
+  const name = `${pc.name} | ${absent}`
+  const result = ({ [name]: (v: PRIM | Absent) => result.to(v) })[name] as
+    OptionalConstructor<P, A>
+  result.of = pc
+  result.nullable = true
+  result.absent = absent
+  result.to = (v) => v === absent ? absent : pc.to(v as PRIM)
+  result.is = (v): v is P | A =>
+    v === absent || pc.is(v as PRIM)
+  result.as = (v): asserts v is P | A => {
+    if (v !== absent) pc.as(v as PRIM)
+  }
+  result.validate = (v) =>
+    v === absent ? { ok: true, value: absent } : pc.validate(v as PRIM)
+  return result
+}
+
+/**
+ * Returns a constructor for the prim type of `pc`, or `undefined`.
+ *
+ * `undefined` is accepted as is, everything else is delegated to `pc`:
+ *
+ * ```ts
+ * import { type optional, type varchar, Varchar, Optional } from 'ts-prims'
+ *
+ * const Nickname = Optional(Varchar(64))
+ * Nickname.name // 'varchar<64> | undefined'
+ * let nick: optional<varchar<64>> = Nickname(undefined) // ok
+ * nick = Nickname('Joe') // ok
+ * nick = Nickname(null) // runtime error
+ * // PrimError: null is not assignable to type 'varchar<64>'.
+ * //   Supertypes do not match: object, string.
+ * ```
+ *
+ * @template P The primitive type
+ * @param pc The constructor for `P`
+ * @returns The constructor for `optional<P>`
+ *
+ * @see {@link optional}
+ * @see {@link Nullable} to accept `null` instead
+ */
+export const Optional = <P extends PRIM> (pc: PrimConstructor<P>) =>
+  wrap(pc, undefined)
+
+/**
+ * Returns a constructor for the prim type of `pc`, or `null`.
+ *
+ * `null` is accepted as is, everything else is delegated to `pc`. This
+ * models nullable database columns:
+ *
+ * ```ts
+ * import { type nullable, type varchar, Varchar, Nullable } from 'ts-prims'
+ *
+ * const MiddleName = Nullable(Varchar(64))
+ * MiddleName.name // 'varchar<64> | null'
+ * let name: nullable<varchar<64>> = MiddleName(null) // ok
+ * name = MiddleName('Jay') // ok
+ * ```
+ *
+ * @template P The primitive type
+ * @param pc The constructor for `P`
+ * @returns The constructor for `nullable<P>`
+ *
+ * @see {@link nullable}
+ * @see {@link Optional} to accept `undefined` instead
+ */
+export const Nullable = <P extends PRIM> (pc: PrimConstructor<P>) =>
+  wrap(pc, null)
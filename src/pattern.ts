@@ -0,0 +1,78 @@
+/** Copyright 2025 by Stijn de Witt, some rights reserved */
+import type { PRIM, Constraint, PrimConstructor } from './prim.js'
+import { constraint, display, primIssue } from './prim.js'
+
+/**
+ * Constrains a string type to the pattern named `N`.
+ *
+ * A regular expression can not be expressed as a type, so the compile-time
+ * component of a pattern is its name. Types with different patterns are not
+ * assignable to one another, but a type with a pattern is assignable to the
+ * same type without it:
+ *
+ * ```ts
+ * import type { prim, pattern, varchar } from 'ts-prims'
+ *
+ * type zipcode = prim<varchar<5>, pattern<'zipcode'>>
+ * let zip: zipcode = '90210' as zipcode
+ * let str: varchar<5> = zip // ok
+ * zip = str // error
+ * // Type 'varchar<5>' is not assignable to type 'zipcode'.
+ * ```
+ *
+ * Use this type in combination with `patternConstraint` for runtime presence.
+ *
+ * @template N The name of the pattern
+ *
+ * @see {@link patternConstraint} for the runtime constraint
+ */
+export type pattern<N extends string> =
+  { pattern: N }
+
+/** Utility to generate a runtime constraint for the pattern `regex` */
+export type PatternConstraint =
+  (regex: RegExp, name?: string) => Constraint
+
+/**
+ * Generates a runtime constraint constraining some string type to values
+ * matching `regex`.
+ *
+ * ```ts
+ * import { type prim, type pattern, type varchar, Prim, Varchar,
+ *   patternConstraint } from 'ts-prims'
+ *
+ * type zipcode = prim<varchar<5>, pattern<'zipcode'>>
+ * const Zipcode = Prim<zipcode>('zipcode', Varchar(5),
+ *   patternConstraint(/^[0-9]{5}$/, 'zipcode')
+ * )
+ * Zipcode('90210') // ok
+ * Zipcode('ABCDE') // runtime error
+ * // PrimError: "ABCDE" is not assignable to 'zipcode'.
+ * //   Not a valid zipcode.
+ * ```
+ *
+ * Without a `name`, the error message mentions the regular expression
+ * instead. The global (`g`) and sticky (`y`) flags of `regex` are ignored,
+ * so the constraint does not depend on `lastIndex`.
+ *
+ * @param regex The regular expression values must match
+ * @param name The name of the pattern, e.g. `'zipcode'`
+ * @returns The pattern constraint
+ *
+ * @see {@link pattern} for the compile-time component
+ */
+export const patternConstraint: PatternConstraint =
+  (regex: RegExp, name: string = '') => {
+    const re = new RegExp(regex.source, regex.flags.replace(/[gy]/g, ''))
+    const problem = name ? `Not a valid ${name}` : `Does not match ${re}`
+    return constraint('pattern',
+      { pattern: re.source, flags: re.flags, name },
+      <P extends PRIM> (pc: PrimConstructor<P>, v: PRIM) =>
+      (typeof v == 'string') && re.test(v) ? undefined :
+      primIssue(pc, v, 'pattern_mismatch',
+        `${display(v)} is not assignable to '${pc.name}'.\n` +
+        `  ${problem}.`,
+        { pattern: re.source, flags: re.flags, name }
+      )
+    )
+  }
@@ -111,7 +111,7 @@ export type IsPrim<P extends PRIM> = (v: PRIM) => v is P
  *
  * @template P The primitive type to check against
  * @param v The primitive value to check against `P`
- * @throws `TypeError` if `v is P` is not `true`.
+ * @throws `PrimError` if `v is P` is not `true`.
  */
 export type AsPrim<P extends PRIM> = (v: PRIM) => asserts v is P
 
@@ -121,10 +121,61 @@ export type AsPrim<P extends PRIM> = (v: PRIM) => asserts v is P
  * @template P The primitive type to convert to
  * @param v The primitive value to convert
  * @returns `v`, converted to `P`
- * @throws `TypeError` if `v is P` is not `true`.
+ * @throws `PrimError` if `v is P` is not `true`.
  */
 export type ToPrim<P extends PRIM> = (v: PRIM) => P
 
+/**
+ * A validation function that checks `v` against all constraints of `P`
+ * and returns a `Validation` result, without throwing.
+ *
+ * @template P The primitive type to validate against
+ * @param v The primitive value to validate
+ * @returns The `Validation` result
+ */
+export type ValidatePrim<P extends PRIM> = (v: PRIM) => Validation<P>
+
+/**
+ * A function that derives a constructor for the subtype `S` of `P`, keeping
+ * the constraints and transforms of `P`.
+ *
+ * Without an explicit `S`, the subtype is `prim<P>`, which is assignable to
+ * `P`, but not the other way round.
+ *
+ * @template P The primitive type to derive from
+ * @template S The subtype, defaults to `prim<P>`
+ * @param name The name of the subtype, e.g. `'port'`
+ * @param constraints Optional additional constraints for the subtype
+ * @param transforms Optional additional transforms for the subtype
+ * @returns The constructor for `S`
+ */
+export type ExtendPrim<P extends PRIM> = <S extends P = prim<P>> (
+  name: string,
+  constraints?: Constraint | Constraint[],
+  transforms?: Transform | Transform[]
+) => PrimConstructor<S>
+
+/**
+ * The result of validating a value against a prim type `P`.
+ *
+ * When the value is valid, `ok` is `true` and `value` holds the value, typed
+ * as `P`. Otherwise, `ok` is `false` and `issues` holds all issues found:
+ *
+ * ```ts
+ * const result = Int8.validate(300.5)
+ * if (!result.ok) result.issues.map(issue => issue.code)
+ * // ['not_integer', 'out_of_range']
+ * ```
+ *
+ * @template P The primitive type
+ *
+ * @see {@link ValidatePrim}
+ * @see {@link PrimIssue}
+ */
+export type Validation<P> =
+  { ok: true, value: P } |
+  { ok: false, issues: PrimIssue[] }
+
 /**
  * A constraint on a type differentiates the subtype from the supertype.
  *
@@ -133,7 +184,7 @@ export type ToPrim<P extends PRIM> = (v: PRIM) => P
  *
  * A constraint is expressed as a function that accepts a prim constructor and
  * a value and returns `undefined` if the value satisfies the constraint, or
- * a `string` with an error message otherwise.
+ * a `PrimIssue` describing the problem otherwise.
  *
  * For example, `isInteger` might look like this:
  *
@@ -141,19 +192,354 @@ export type ToPrim<P extends PRIM> = (v: PRIM) => P
  * export const isInteger: Constraint =
  *   <P extends PRIM> (pc: PrimConstructor<P>, v: PRIM) =>
  *   (typeof v == 'number') && Number.isInteger(v) ? undefined :
- *   `${display(v)} is not assignable to type '${pc.name}'.\n` +
- *   `  Not an integer.`
+ *   primIssue(pc, v, 'not_integer',
+ *     `${display(v)} is not assignable to type '${pc.name}'.\n` +
+ *     `  Not an integer.`
+ *   )
  * ```
  *
  * Being able to define constraints separately from the constructor, and making
  * them first class citizens in the runtime type implementation makes it easier
  * to reuse implementations like `isInteger` throughout the codebase.
  *
- * @see {@link}
+ * @see {@link PrimIssue}
  */
-export type Constraint =
-  <P extends PRIM> (pc: PrimConstructor<P>, v: PRIM) =>
-  string | undefined
+export type Constraint = {
+  <P extends PRIM> (pc: PrimConstructor<P>, v: PRIM): PrimIssue | undefined
+  meta?: ConstraintMeta
+}
+
+/**
+ * The kinds of the built-in constraints.
+ *
+ * User-defined constraints are free to declare kinds of their own.
+ *
+ * @see {@link ConstraintMeta}
+ */
+export type ConstraintKind =
+  'super' | 'integer' | 'width' | 'uwidth' | 'range' | 'length' | 'chars' |
+  'fixed' | 'pattern' | 'enum' | 'nominal' | 'finite' | 'float'
+
+/**
+ * The parameters of a constraint, e.g. the `width`, `bits`, `min` and `max`
+ * of a `widthConstraint`, or the `values` of an `enumConstraint`.
+ */
+export type ConstraintParams = { [key: string]: PRIM | PRIM[] }
+
+/**
+ * Metadata describing a constraint, making it introspectable at runtime.
+ *
+ * ```ts
+ * Int32.constraints.map(c => c.meta)
+ * // [
+ * //   { kind: 'super', params: {} },
+ * //   { kind: 'integer', params: {} },
+ * //   { kind: 'width', params: {
+ * //     width: 4, bits: 32, min: -2147483648n, max: 2147483647n
+ * //   } }
+ * // ]
+ * ```
+ *
+ * @field kind The kind of constraint, e.g. `'width'`
+ * @field params The parameters of the constraint, e.g. `{ min, max }`
+ *
+ * @see {@link constraint} to declare metadata for your own constraints
+ * @see {@link constraintMeta} to look up the metadata of a constructor
+ */
+export type ConstraintMeta = {
+  kind: ConstraintKind | string
+  params: ConstraintParams
+}
+
+/**
+ * Declares the metadata for the constraint function `fn`.
+ *
+ * ```ts
+ * const isEven = constraint('even', {}, (pc, v) =>
+ *   (typeof v == 'number') && (v % 2 == 0) ? undefined :
+ *   primIssue(pc, v, 'not_even',
+ *     `${display(v)} is not assignable to type '${pc.name}'.\n` +
+ *     `  Not an even number.`
+ *   )
+ * )
+ * isEven.meta // { kind: 'even', params: {} }
+ * ```
+ *
+ * @param kind The kind of constraint, e.g. `'width'`
+ * @param params The parameters of the constraint, e.g. `{ min, max }`
+ * @param fn The constraint function
+ * @returns `fn`, with the metadata attached as `meta`
+ *
+ * @see {@link ConstraintMeta}
+ */
+export const constraint =
+  (kind: ConstraintKind | string, params: ConstraintParams, fn: Constraint) =>
+  Object.assign(fn, { meta: { kind, params } }) as Constraint
+
+/**
+ * Gets the metadata of the constraint of the given `kind` on the constructor
+ * `pc`, or `undefined` if `pc` has no such constraint.
+ *
+ * When `pc` has multiple constraints of the same kind, the one added last,
+ * by the most derived constructor, is returned.
+ *
+ * ```ts
+ * constraintMeta(Int8, 'width')
+ * // { kind: 'width', params: { width: 1, bits: 8, min: -128n, max: 127n } }
+ * ```
+ *
+ * @param pc The constructor
+ * @param kind The kind of constraint, e.g. `'width'`
+ * @returns The metadata, or `undefined`
+ */
+export const constraintMeta =
+  <P extends PRIM> (pc: Constructor<P>, kind: ConstraintKind | string) =>
+  constraintsOf(pc)
+    .map(c => c.meta)
+    .filter((meta): meta is ConstraintMeta => meta?.kind == kind)
+    .pop()
+
+/**
+ * Whether the constraint or transform metadata `a` and `b` are equal, i.e.
+ * have the same kind and the same parameters. Parameters are compared with
+ * `===`, arrays of parameters element by element.
+ *
+ * ```ts
+ * sameMeta(rangeConstraint(1, 9).meta!, rangeConstraint(1, 9).meta!) // true
+ * ```
+ *
+ * @param a The metadata to compare
+ * @param b The metadata to compare with
+ * @returns `true` if the metadata are equal, `false` otherwise
+ */
+export const sameMeta = (
+  a: ConstraintMeta | TransformMeta,
+  b: ConstraintMeta | TransformMeta
+) =>
+  (a.kind == b.kind) &&
+  (Object.keys(a.params).length == Object.keys(b.params).length) &&
+  Object.keys(a.params).every(key => {
+    const x = a.params[key], y = b.params[key]
+    return Array.isArray(x) && Array.isArray(y) ?
+      (x.length == y.length) && x.every((v, i) => v === y[i]) :
+      x === y
+  })
+
+/**
+ * A transform normalizes a value before it is checked against the constraints
+ * of a type, e.g. by trimming whitespace from a string.
+ *
+ * A transform is expressed as a function that accepts a value and returns the
+ * normalized value. Transforms should leave values of a primitive type they
+ * do not apply to unchanged, so the constraints can report them.
+ *
+ * ```ts
+ * export const trim: Transform = transform('trim', {},
+ *   (v: PRIM) => typeof v == 'string' ? v.trim() : v
+ * )
+ * ```
+ *
+ * @see {@link transform} to declare metadata for your own transforms
+ */
+export type Transform = {
+  (v: PRIM): PRIM
+  meta?: TransformMeta
+}
+
+/**
+ * The kinds of the built-in transforms.
+ *
+ * User-defined transforms are free to declare kinds of their own.
+ *
+ * @see {@link TransformMeta}
+ */
+export type TransformKind =
+  'trim' | 'collapse' | 'normalize' | 'lowercase' | 'unsignedZero' | 'pad' |
+  'fround'
+
+/**
+ * Metadata describing a transform, making it introspectable at runtime.
+ *
+ * ```ts
+ * Email.transforms.map(t => t.meta)
+ * // [ { kind: 'trim', params: {} }, { kind: 'lowercase', params: {} } ]
+ * ```
+ *
+ * @field kind The kind of transform, e.g. `'normalize'`
+ * @field params The parameters of the transform, e.g. `{ form: 'NFC' }`
+ *
+ * @see {@link transform} to declare metadata for your own transforms
+ */
+export type TransformMeta = {
+  kind: TransformKind | string
+  params: ConstraintParams
+}
+
+/**
+ * Declares the metadata for the transform function `fn`.
+ *
+ * @param kind The kind of transform, e.g. `'trim'`
+ * @param params The parameters of the transform, e.g. `{ form: 'NFC' }`
+ * @param fn The transform function
+ * @returns `fn`, with the metadata attached as `meta`
+ *
+ * @see {@link TransformMeta}
+ */
+export const transform =
+  (kind: TransformKind | string, params: ConstraintParams, fn: Transform) =>
+  Object.assign(fn, { meta: { kind, params } }) as Transform
+
+/**
+ * The machine-readable codes of the issues reported by the built-in
+ * constraints.
+ *
+ * User-defined constraints are free to report issues with codes of their own.
+ *
+ * @see {@link PrimIssue}
+ */
+export type IssueCode =
+  'not_integer' | 'out_of_range' | 'too_long' | 'too_short' |
+  'super_mismatch' | 'overflow' | 'bad_encoding' | 'pattern_mismatch' |
+  'not_in_enum' | 'not_object' | 'unknown_key' | 'not_array' | 'not_unique' |
+  'not_finite' | 'not_representable' | 'division_by_zero'
+
+/**
+ * The parameters of the constraint that reported an issue, e.g. the `min`
+ * and `max` of a `widthConstraint` or the `max` length of a
+ * `lengthConstraint`.
+ */
+export type IssueParams = { [key: string]: PRIM | PRIM[] }
+
+/**
+ * An issue, reported by a `Constraint` when a value does not satisfy it.
+ *
+ * ```ts
+ * const issue = Int8.constraints
+ *   .map(c => c(Int8, 300))
+ *   .find(issue => issue)
+ * // {
+ * //   type: 'int<1>',
+ * //   value: 300,
+ * //   code: 'out_of_range',
+ * //   params: { min: -128n, max: 127n },
+ * //   message: "300 is not assignable to 'int<1>'.\n  Not in range -128 .. 127."
+ * // }
+ * ```
+ *
+ * @field type The name of the type, e.g. `'int<1>'`
+ * @field value The offending value
+ * @field code The machine-readable issue code, e.g. `'out_of_range'`
+ * @field params The parameters of the constraint, e.g. `{ min, max }`
+ * @field message The human-readable error message
+ * @field path The path to the offending value within a composite value,
+ *        such as a `Record`, e.g. `['tags', 2]`. Absent for plain prims.
+ *
+ * @see {@link IssueCode}
+ * @see {@link PrimError}
+ */
+export type PrimIssue = {
+  type: string
+  value: unknown
+  code: IssueCode | string
+  params: IssueParams
+  message: string
+  path?: IssuePath
+}
+
+/**
+ * The path to a value within a composite value, as a list of property names
+ * and array indices.
+ *
+ * @see {@link displayPath}
+ */
+export type IssuePath = (string | number)[]
+
+/**
+ * Returns a 'display path' string for `path`.
+ *
+ * ```ts
+ * displayPath(['tags', 2, 'name']) // 'tags[2].name'
+ * ```
+ *
+ * @param path The path
+ * @returns The display path string of `path`
+ */
+export const displayPath = (path: IssuePath) =>
+  path.map((key, i) =>
+    typeof key == 'number' ? `[${key}]` : i ? `.${key}` : key
+  ).join('')
+
+/**
+ * Creates a `PrimIssue` for the value `v` that is not assignable to the type
+ * of prim constructor `pc`.
+ *
+ * @param pc The prim constructor
+ * @param v The offending value
+ * @param code The machine-readable issue code
+ * @param message The human-readable error message
+ * @param params The parameters of the constraint
+ * @returns The issue
+ */
+export const primIssue =
+  <P extends PRIM> (
+    pc: PrimConstructor<P>,
+    v: PRIM,
+    code: IssueCode | string,
+    message: string,
+    params: IssueParams = {}
+  ): PrimIssue =>
+  ({ type: pc.name, value: v, code, params, message })
+
+/**
+ * Error thrown when a value is not assignable to a prim type.
+ *
+ * Extends `TypeError`, so existing code catching `TypeError`s keeps working,
+ * but carries the structured information of the `PrimIssue` that caused it:
+ *
+ * ```ts
+ * try {
+ *   Int8(300)
+ * } catch (e) {
+ *   if (e instanceof PrimError) {
+ *     e.code // 'out_of_range'
+ *     e.params // { min: -128n, max: 127n }
+ *   }
+ * }
+ * ```
+ *
+ * When the issue has a `path`, e.g. for a field of a `Record`, the message
+ * starts with that path.
+ *
+ * @see {@link PrimIssue}
+ */
+export class PrimError extends TypeError {
+  /** The name of the type, e.g. `'int<1>'` */
+  readonly type: string
+  /** The offending value */
+  readonly value: unknown
+  /** The machine-readable issue code, e.g. `'out_of_range'` */
+  readonly code: IssueCode | string
+  /** The parameters of the constraint, e.g. `{ min, max }` */
+  readonly params: IssueParams
+  /** The path to the offending value, empty for plain prims */
+  readonly path: IssuePath
+  /** The issue that caused this error */
+  readonly issue: PrimIssue
+
+  constructor(issue: PrimIssue) {
+    super(issue.path?.length ?
+      `${displayPath(issue.path)}: ${issue.message}` :
+      issue.message
+    )
+    this.name = 'PrimError'
+    this.type = issue.type
+    this.value = issue.value
+    this.code = issue.code
+    this.params = issue.params
+    this.path = issue.path ?? []
+    this.issue = issue
+  }
+}
 
 
 /**
@@ -177,16 +563,49 @@ export const display =
   `"${v}"` :
   `${v}`
 
+/**
+ * Returns a 'display value' string for `v`, which may be any value.
+ *
+ * Primitives are displayed like `display` does. Values that can not be
+ * converted to strings safely, like symbols and objects without a prototype,
+ * are displayed by their type instead:
+ *
+ * ```ts
+ * displayUnknown('Hello') // '"Hello"'
+ * displayUnknown(null) // 'null'
+ * displayUnknown(Symbol('id')) // 'Symbol(id)'
+ * displayUnknown([ 1, 2 ]) // '[object Array]'
+ * displayUnknown(Object.create(null)) // '[object Object]'
+ * ```
+ *
+ * @param v The value
+ * @returns The display value string of `v`
+ *
+ * @see {@link display} for primitive-typed values
+ */
+export const displayUnknown =
+  (v: unknown): string =>
+  v === null ? 'null' :
+  typeof v == 'symbol' ? v.toString() :
+  (typeof v == 'object') || (typeof v == 'function') ?
+  Object.prototype.toString.call(v) :
+  typeof v == 'string' ? display(v) :
+  `${v}`
+
 /**
  * Constraint that the primitive type of two types must be equal for them to be
  * assignable to one another. This constraint is implied in the type system and
  * made explicit in the runtime implementation through this object.
  */
-export const superConstraint: Constraint =
+export const superConstraint: Constraint = constraint('super', {},
   <P extends PRIM> (pc: PrimConstructor<P>, v: PRIM) =>
   typeof v == primTypeOf(pc) ? undefined :
-  `${display(v)} is not assignable to type '${pc.name}'.\n` +
-  `  Supertypes do not match: ${typeof v}, ${primTypeOf(pc)}.`
+  primIssue(pc, v, 'super_mismatch',
+    `${displayUnknown(v)} is not assignable to type '${pc.name}'.\n` +
+    `  Supertypes do not match: ${typeof v}, ${primTypeOf(pc)}.`,
+    { expected: primTypeOf(pc), actual: typeof v }
+  )
+)
 
 /**
  * Run-Time Type Information for the primitive type `P`
@@ -198,7 +617,8 @@ export const superConstraint: Constraint =
  * const Int = Prim<int>('int', Number)
  * ```
  *
- * `Int` will have properties `name`, `super`, `is`, `as`, `to`, which are
+ * `Int` will have properties `name`, `super`, `constraints`, `is`, `as`, `to`,
+ * `validate` and `extend`, which are
  * inspectable and usable at runtime.
  *
  * @template P The primitive type
@@ -208,19 +628,27 @@ export const superConstraint: Constraint =
  * @field to The `ToPrim` converter function
  * @field is The `IsPrim` guard function
  * @field as The `AsPrim` assertion function
+ * @field validate The `ValidatePrim` validation function
+ * @field extend The `ExtendPrim` function, deriving subtypes
+ * @field transforms The transforms, applied by `to` and `validate` before
+ *        checking the constraints
  *
  * @see {@link SuperConstructor}
  * @see {@link ToPrim}
  * @see {@link IsPrim}
  * @see {@link AsPrim}
+ * @see {@link ValidatePrim}
  */
 export type Rtti<P extends PRIM> = {
   name: string
   super: SuperConstructor<P>
   constraints: Constraint[]
+  transforms: Transform[]
   to: ToPrim<P>
   is: IsPrim<P>
   as: AsPrim<P>
+  validate: ValidatePrim<P>
+  extend: ExtendPrim<P>
 }
 
 /**
@@ -286,13 +714,17 @@ export type NativeConstructor<P extends PRIM> =
  * @param constraints Optional constraints for the primitive type. Any
  *        constraints from the super constructor will be used
  *        automatrically and should not be passed in here again.
+ * @param transforms Optional transforms for the primitive type. Any
+ *        transforms from the super constructor will be used
+ *        automatically and should not be passed in here again.
  * @see {@link Prim}
  */
 export type PrimFactory =
   <P extends PRIM> (
     name: string,
     pc: SuperConstructor<P>,
-    constraints: Constraint | Constraint[]
+    constraints: Constraint | Constraint[],
+    transforms?: Transform | Transform[]
   ) => PrimConstructor<P>
 
 /**
@@ -330,6 +762,11 @@ export const constraintsOf =
   <P extends PRIM> (pc: Constructor<P>): Constraint[] =>
     'super' in pc ? pc.constraints : [ superConstraint ]
 
+/** Gets the transforms associated with the constructor `pc` */
+export const transformsOf =
+  <P extends PRIM> (pc: Constructor<P>): Transform[] =>
+    'super' in pc ? pc.transforms : []
+
 /**
  * Creates a constructor function for a primitive type extending `P`.
  *
@@ -345,7 +782,8 @@ export const constraintsOf =
  * const Byte = Prim<byte>('byte', Number, widthConstraint(1))
  * let x: byte = Byte(100) // ok
  * let y: byte = Byte(1000) // runtime error
- * // TypeError: 1000 is not assignable to 'byte': -128 .. 127
+ * // PrimError: 1000 is not assignable to 'byte'.
+ * //   Not in range -128 .. 127.
  * ```
  *
  * @template P The primitive type
@@ -355,6 +793,21 @@ export const constraintsOf =
  * @param constraints Optional constraints for the primitive type. Any
  *   constraints from the super constructor will be used automatically
  *   and should not be passed in here again.
+ * @param transforms Optional transforms that normalize values before they
+ *   are checked against the constraints. Any transforms from the super
+ *   constructor will be used automatically and should not be passed in
+ *   here again. The transforms are applied by `to` (and so by the
+ *   constructor function itself) and by `validate`, but not by `is` and
+ *   `as`, which can not change the value:
+ *
+ *   ```ts
+ *   const Email = Prim<email>('email', Varchar(256),
+ *     patternConstraint(/^[^\s@]+@[^\s@]+\.[^\s@]+$/, 'email'),
+ *     [ trim, lowercase ]
+ *   )
+ *   Email(' Foo@Bar.com ') // 'foo@bar.com'
+ *   Email.is(' Foo@Bar.com ') // false
+ *   ```
  *
  * @see {@link PrimFactory}
  * @see {@link PrimConstructor}
@@ -364,7 +817,8 @@ export const constraintsOf =
 export const Prim: PrimFactory = <P extends PRIM> (
   name: string,
   pc: SuperConstructor<P>,
-  constraints: Constraint | Constraint[] = []
+  constraints: Constraint | Constraint[] = [],
+  transforms: Transform | Transform[] = []
 ): PrimConstructor<P> => {
   const result: PrimConstructor<P> =
     ({ [name]: (v: PRIM) => result.to(v) })[name] as PrimConstructor<P>
@@ -373,19 +827,44 @@ export const Prim: PrimFactory = <P extends PRIM> (
     Array.isArray(constraints) ? constraints :
     constraints ? [constraints] : []
   result.constraints = [ ...constraintsOf(pc), ...constraints ]
+  transforms =
+    Array.isArray(transforms) ? transforms :
+    transforms ? [transforms] : []
+  result.transforms = [ ...transformsOf(pc), ...transforms ]
+  const normalize = (v: PRIM) =>
+    result.transforms.reduce((v, transform) => transform(v), v)
   result.is = (v: PRIM): v is P => {
     for (let constraint of result.constraints) {
-      const err = constraint(result, v)
-      if (err) return false
+      const issue = constraint(result, v)
+      if (issue) return false
     }
     return true
   }
   result.as = (v: PRIM): asserts v is P => {
     for (let constraint of result.constraints) {
-      const err = constraint(result, v)
-      if (err) throw new TypeError(err)
+      const issue = constraint(result, v)
+      if (issue) throw new PrimError(issue)
     }
   }
-  result.to = (v) => { result.as(v); return v }
+  result.to = (v) => { v = normalize(v); result.as(v); return v }
+  result.validate = (v: PRIM): Validation<P> => {
+    v = normalize(v)
+    const issues: PrimIssue[] = []
+    for (let constraint of result.constraints) {
+      const issue = constraint(result, v)
+      if (issue) issues.push(issue)
+      // other constraints assume the right primitive type
+      if (issue && constraint === superConstraint) break
+    }
+    return issues.length ? { ok: false, issues } : { ok: true, value: v as P }
+  }
+  result.extend = <S extends P> (
+    name: string,
+    constraints?: Constraint | Constraint[],
+    transforms?: Transform | Transform[]
+  ) => Prim<S>(
+    name, result as unknown as SuperConstructor<S>, constraints ?? [],
+    transforms
+  )
   return result
 }
@@ -0,0 +1,85 @@
+/** Copyright 2025 by Stijn de Witt, some rights reserved */
+import type { PRIM, Constraint, PrimConstructor } from './prim.js'
+import { constraint, display, primIssue } from './prim.js'
+// For linking from jsdoc comments
+import type { width } from './width.js'
+
+/**
+ * The possible bounds of a `range`.
+ */
+export type Bound = number | bigint
+
+/**
+ * Constraint limiting a type to the range `Min` .. `Max` (inclusive).
+ *
+ * Use it to add bounds to a number type that do not coincide with one of the
+ * fixed widths:
+ *
+ * ```ts
+ * import type { prim, range, int8, int32 } from 'ts-prims'
+ *
+ * type percentage = prim<int8, range<0, 100>>
+ * type port = prim<int32, range<1, 65535>>
+ * type retries = prim<int8, range<0, 10>>
+ *
+ * let p: percentage = 50 as percentage
+ * let i: int8 = p // ok
+ * p = i // error
+ * // Type 'int8' is not assignable to type 'percentage'.
+ * ```
+ *
+ * Unlike `width`, different ranges are not ordered at compile time: a type
+ * with a range is assignable to the same type without the range, but types
+ * with different ranges are not assignable to one another.
+ *
+ * Use this type in combination with `rangeConstraint` for runtime presence.
+ *
+ * @template Min The lower bound (inclusive)
+ * @template Max The upper bound (inclusive)
+ *
+ * @see {@link rangeConstraint} for the runtime constraint
+ * @see {@link width} for the fixed widths
+ */
+export type range<Min extends Bound, Max extends Bound> =
+  { range: { min: Min, max: Max } }
+
+/** Utility to generate a runtime constraint for the range `min` .. `max` */
+export type RangeConstraint =
+  <Min extends Bound, Max extends Bound> (min: Min, max: Max) => Constraint
+
+/**
+ * Generates a runtime constraint constraining some number type to the range
+ * `min` .. `max` (inclusive).
+ *
+ * Works for both `number` and `bigint` prims:
+ *
+ * ```ts
+ * import { type prim, type range, type int32, Prim, Int32,
+ *   rangeConstraint } from 'ts-prims'
+ *
+ * type port = prim<int32, range<1, 65535>>
+ * const Port = Prim<port>('port', Int32, rangeConstraint(1, 65535))
+ * Port(80) // ok
+ * Port(0) // runtime error
+ * // PrimError: 0 is not assignable to 'port'.
+ * //   Not in range 1 .. 65535.
+ * ```
+ *
+ * @param min The lower bound (inclusive)
+ * @param max The upper bound (inclusive)
+ * @returns The range constraint
+ *
+ * @see {@link range} for the compile-time component
+ */
+export const rangeConstraint: RangeConstraint =
+  <Min extends Bound, Max extends Bound> (min: Min, max: Max) =>
+  constraint('range', { min, max },
+    <P extends PRIM> (pc: PrimConstructor<P>, v: PRIM) =>
+    (typeof v == 'number' || typeof v == 'bigint') &&
+    (v >= min) && (v <= max) ? undefined :
+    primIssue(pc, v, 'out_of_range',
+      `${display(v)} is not assignable to '${pc.name}'.\n` +
+      `  Not in range ${min} .. ${max}.`,
+      { min, max }
+    )
+  )
@@ -0,0 +1,227 @@
+/** Copyright 2025 by Stijn de Witt, some rights reserved */
+import type { PrimIssue, Validation } from './prim.js'
+import { PrimError, display, displayUnknown } from './prim.js'
+// For linking from jsdoc comments
+import type { Rtti } from './prim.js'
+import type { Optional } from './optional.js'
+
+/**
+ * A constructor for the fields of a `Record`.
+ *
+ * Any constructor following the conventions of `Rtti` will do, e.g. a
+ * `PrimConstructor`, an `OptionalConstructor` or a `RecordConstructor`.
+ *
+ * @see {@link Record}
+ */
+export type FieldConstructor = {
+  (v: never): unknown
+  name: string
+  is: (v: never) => boolean
+  as: (v: never) => void
+  validate: (v: never) => Validation<unknown>
+}
+
+/**
+ * The fields of a `Record`, mapping the keys to the constructors of their
+ * values.
+ *
+ * @see {@link Record}
+ */
+export type Fields = { [key: string]: FieldConstructor }
+
+/** The type constructed by the field constructor `F` */
+export type FieldType<F> =
+  F extends (v: never) => infer T ? T : never
+
+/** The keys of the fields in `F` that accept `undefined` */
+export type OptionalKeys<F extends Fields> = {
+  [K in keyof F]: undefined extends FieldType<F[K]> ? K : never
+}[keyof F]
+
+/**
+ * The object type with the fields `F`.
+ *
+ * Fields that accept `undefined`, e.g. because their constructor is
+ * `Optional`, are optional properties:
+ *
+ * ```ts
+ * const User = Record({ id: Big64, bio: Optional(Memo) })
+ * type user = record<typeof User.fields>
+ * // type user = { id: big64, bio?: memo | undefined }
+ * ```
+ *
+ * @template F The fields
+ *
+ * @see {@link Record} for the constructor
+ */
+export type record<F extends Fields> = Flatten<{
+  [K in Exclude<keyof F, OptionalKeys<F>>]: FieldType<F[K]>
+} & {
+  [K in OptionalKeys<F>]?: FieldType<F[K]>
+}>
+
+/** Flattens the intersection `T` into a single object type */
+type Flatten<T> = { [K in keyof T]: T[K] }
+
+/**
+ * What to do with keys that are not in the fields of a `Record`:
+ *
+ * - `'reject'`: report them as issues with code `unknown_key` (the default)
+ * - `'strip'`: leave them out of the constructed value
+ */
+export type UnknownKeys = 'reject' | 'strip'
+
+/**
+ * The options for {@link Record}.
+ *
+ * @field name The name of the record type, defaults to a description of the
+ *        fields, e.g. `'{ id: big<8>, name: varchar<64> }'`
+ * @field unknownKeys What to do with unknown keys, defaults to `'reject'`
+ */
+export type RecordOptions = {
+  name?: string
+  unknownKeys?: UnknownKeys
+}
+
+/**
+ * The constructor for the object type with fields `F`.
+ *
+ * It follows the conventions of `Rtti`: `to` constructs a new object from
+ * the validated fields, `is` and `as` check an object as is, and `validate`
+ * reports all issues, with the property `path` of each issue pointing at the
+ * offending field.
+ *
+ * @template F The fields
+ *
+ * @see {@link Record}
+ */
+export type RecordConstructor<F extends Fields> = {
+  (v: unknown): record<F>
+  name: string
+  fields: F
+  unknownKeys: UnknownKeys
+  to: (v: unknown) => record<F>
+  is: (v: unknown) => v is record<F>
+  as: (v: unknown) => asserts v is record<F>
+  validate: (v: unknown) => Validation<record<F>>
+}
+
+/** An object, that can be indexed by its keys */
+type Indexable = { [key: string]: unknown }
+
+/** Whether `v` is a (non-array) object */
+const isObject = (v: unknown): v is Indexable =>
+  typeof v == 'object' && v !== null && !Array.isArray(v)
+
+/** Whether `v` has its own property `key` */
+const has = (v: Indexable, key: string) =>
+  Object.prototype.hasOwnProperty.call(v, key)
+
+/** Gets the own property `key` of `v`, ignoring its prototype chain */
+const own = (v: Indexable, key: string) =>
+  has(v, key) ? v[key] : undefined
+
+/**
+ * Returns a constructor for objects with the given `fields`.
+ *
+ * The object type is inferred from the field constructors, and values are
+ * validated field by field:
+ *
+ * ```ts
+ * import { Record, Big64, Varchar, Memo, Optional } from 'ts-prims'
+ *
+ * const User = Record({ id: Big64, name: Varchar(64), bio: Optional(Memo) })
+ * type user = ReturnType<typeof User>
+ * // type user = { id: big64, name: varchar<64>, bio?: memo | undefined }
+ * User({ id: 1n, name: 'Joe' }) // ok
+ * User({ id: 1n, name: 'Joe'.repeat(30) }) // runtime error
+ * // PrimError: name: "JoeJoeJoe..." is not assignable to 'varchar<64>'.
+ * //   Length exceeds 64.
+ * ```
+ *
+ * Issues with fields get the key of the field in their `path`. Records can
+ * be nested, in which case the path contains all keys leading to the
+ * offending value. Unknown keys are rejected, unless the `unknownKeys`
+ * option is `'strip'`, in which case they are left out of the constructed
+ * object.
+ *
+ * @template F The fields
+ * @param fields The fields, mapping keys to the constructors of their values
+ * @param options The name of the record type and what to do with unknown
+ *        keys
+ * @returns The constructor for `record<F>`
+ *
+ * @see {@link record}
+ * @see {@link RecordOptions}
+ * @see {@link Rtti} for the conventions the constructor follows
+ * @see {@link Optional} for optional fields
+ */
+export const Record = <F extends Fields> (
+  fields: F,
+  {
+    name = `{ ${Object.keys(fields)
+      .map(key => `${key}: ${fields[key].name}`)
+      .join(', ')} }`,
+    unknownKeys = 'reject'
+  }: RecordOptions = {}
+): RecordConstructor<F> => {
+  const keys = Object.keys(fields)
+  const result = ({ [name]: (v: unknown) => result.to(v) })[name] as
+    RecordConstructor<F>
+  result.fields = fields
+  result.unknownKeys = unknownKeys
+
+  const notObject = (v: unknown): PrimIssue => ({
+    type: name, value: v, code: 'not_object', params: {},
+    message: `${displayUnknown(v)} is not assignable to '${name}'.\n` +
+      `  Not an object.`
+  })
+  const unknownKey = (v: Indexable, key: string): PrimIssue => ({
+    type: name, value: v[key], code: 'unknown_key', params: { key },
+    message: `Unknown key ${display(key)} is not allowed in '${name}'.`,
+    path: [ key ]
+  })
+  const unknown = (v: Indexable) =>
+    unknownKeys == 'strip' ? [] :
+    Object.keys(v).filter(key => !keys.includes(key))
+  const at = (key: string, issue: PrimIssue): PrimIssue =>
+    ({ ...issue, path: [ key, ...(issue.path ?? []) ] })
+
+  result.is = (v): v is record<F> =>
+    isObject(v) &&
+    keys.every(key => fields[key].is(own(v, key) as never)) &&
+    !unknown(v).length
+  result.as = (v): asserts v is record<F> => {
+    if (!isObject(v)) throw new PrimError(notObject(v))
+    for (const key of keys) {
+      try {
+        fields[key].as(own(v, key) as never)
+      } catch (e) {
+        throw e instanceof PrimError ? new PrimError(at(key, e.issue)) : e
+      }
+    }
+    for (const key of unknown(v)) throw new PrimError(unknownKey(v, key))
+  }
+  result.validate = (v) => {
+    if (!isObject(v)) return { ok: false, issues: [ notObject(v) ] }
+    const value: Indexable = {}
+    const issues: PrimIssue[] = []
+    for (const key of keys) {
+      const field = fields[key].validate(own(v, key) as never)
+      if (!field.ok) issues.push(...field.issues.map(i => at(key, i)))
+      // leave out optional fields that are missing
+      else if ((field.value !== undefined) || has(v, key)) {
+        value[key] = field.value
+      }
+    }
+    issues.push(...unknown(v).map(key => unknownKey(v, key)))
+    return issues.length ? { ok: false, issues } :
+      { ok: true, value: value as record<F> }
+  }
+  result.to = (v) => {
+    const validation = result.validate(v)
+    if (!validation.ok) throw new PrimError(validation.issues[0])
+    return validation.value
+  }
+  return result
+}
@@ -0,0 +1,131 @@
+/** Copyright 2025 by Stijn de Witt, some rights reserved */
+import type { PRIM, Constructor, PrimConstructor, Constraint,
+  Transform } from './prim.js'
+import { sameMeta } from './prim.js'
+
+/** The registered constructors, by name */
+const registry = new Map<string, PrimConstructor<PRIM>>()
+
+/**
+ * Whether the constraints or transforms `a` and `b` are the same, i.e. are
+ * the same functions or have the same metadata.
+ */
+const same = (
+  a: (Constraint | Transform)[],
+  b: (Constraint | Transform)[]
+) =>
+  a.length == b.length && a.every((x, i) => {
+    const y = b[i]
+    return x === y || !!x.meta && !!y.meta && sameMeta(x.meta, y.meta)
+  })
+
+/**
+ * Whether all constraints and transforms of `pc` and its super constructors
+ * have metadata, so they can be compared with those of another constructor.
+ */
+const described = (pc: Constructor<PRIM>): boolean =>
+  !('super' in pc) || described(pc.super) &&
+  [ ...pc.constraints, ...pc.transforms ].every(fn => !!fn.meta)
+
+/** Whether the constructors `a` and `b` define the same type */
+const equivalent = (a: Constructor<PRIM>, b: Constructor<PRIM>): boolean =>
+  a === b || ('super' in a) && ('super' in b) &&
+  equivalent(a.super, b.super) &&
+  same(a.constraints, b.constraints) &&
+  same(a.transforms, b.transforms)
+
+/**
+ * Registers the constructor `pc` under its name and returns the canonical
+ * constructor for that name.
+ *
+ * When no constructor is registered under the name of `pc` yet, `pc` becomes
+ * the canonical constructor. When an equivalent constructor, with the same
+ * super constructor, constraints and transforms, is registered already, that
+ * constructor is returned instead, so constructors are interned:
+ *
+ * ```ts
+ * import { Int, Int16, Int32, rangeConstraint, register,
+ *   lookup } from 'ts-prims'
+ *
+ * Int(4) === Int32 // true, the built-in factories register their results
+ * const Port = register(Int32.extend('port', rangeConstraint(1, 65535)))
+ * lookup('port') === Port // true
+ * register(Int16.extend('port')) // error
+ * // TypeError: Conflicting definition for 'port'.
+ * ```
+ *
+ * Constraints and transforms are compared by their metadata, so only the
+ * same functions compare equal when they have none. Declare constraints with
+ * `constraint` to register a constructor that is created more than once:
+ *
+ * ```ts
+ * register(Int32.extend('odd', (pc, v) => ...)) // ok
+ * register(Int32.extend('odd', (pc, v) => ...)) // error
+ * // TypeError: Conflicting definition for 'odd'.
+ * //   Constraints and transforms without metadata can not be compared.
+ * //   Declare them with `constraint` and `transform`.
+ *
+ * const isEven = () => constraint('even', {}, (pc, v) => ...)
+ * register(Int32.extend('even', isEven())) // ok
+ * register(Int32.extend('even', isEven())) // ok, the same metadata
+ * ```
+ *
+ * @template C The type of the constructor
+ * @param pc The constructor to register
+ * @returns The canonical constructor for the name of `pc`
+ * @throws `TypeError` if a different constructor is registered under the
+ *         same name, or if `pc` can not be compared with the registered
+ *         constructor, because it has constraints or transforms without
+ *         metadata
+ *
+ * @see {@link lookup}
+ */
+export const register = <C extends PrimConstructor<PRIM>> (pc: C): C => {
+  const existing = registry.get(pc.name)
+  if (!existing) {
+    registry.set(pc.name, pc)
+    return pc
+  }
+  if (equivalent(existing, pc)) return existing as C
+  throw new TypeError(
+    `Conflicting definition for '${pc.name}'.\n` + (
+      described(pc) ?
+      `  A different constructor is registered under this name.` :
+      `  Constraints and transforms without metadata can not be compared.\n` +
+      `  Declare them with \`constraint\` and \`transform\`.`
+    )
+  )
+}
+
+/**
+ * Returns the canonical constructor registered under `name`, or `undefined`
+ * if there is none.
+ *
+ * The built-in constructors are registered under the names they print:
+ *
+ * ```ts
+ * lookup('int<4>') === Int32 // true
+ * lookup('varchar<64>') // the constructor for `varchar<64>`, if created
+ * lookup('email') === Email // true
+ * ```
+ *
+ * Types created by factories like `Varchar` are registered when they are
+ * created, so `lookup('varchar<64>')` only finds that constructor once
+ * `Varchar(64)` has been called.
+ *
+ * @template P The primitive type of the constructor
+ * @param name The name of the type, e.g. `'varchar<64>'`
+ * @returns The constructor, or `undefined`
+ *
+ * @see {@link register}
+ */
+export const lookup = <P extends PRIM = PRIM> (name: string) =>
+  registry.get(name) as PrimConstructor<P> | undefined
+
+/**
+ * Returns the names of all registered constructors, in order of
+ * registration.
+ *
+ * @returns The names
+ */
+export const registered = () => [ ...registry.keys() ]
@@ -0,0 +1,241 @@
+/** Copyright 2025 by Stijn de Witt, some rights reserved */
+import type {
+  PRIM, Constructor, ConstraintKind, ConstraintMeta, ConstraintParams
+} from './prim.js'
+import { constraintsOf, primTypeOf } from './prim.js'
+import { type Absent, type OptionalConstructor,
+  isOptional } from './optional.js'
+
+/**
+ * A JSON value, as it may appear in a JSON Schema.
+ */
+export type JsonValue =
+  null | boolean | number | string | JsonValue[] | { [key: string]: JsonValue }
+
+/**
+ * A JSON Schema (draft 2020-12) fragment.
+ *
+ * ```ts
+ * const schema: JsonSchema = { type: 'integer', minimum: 0, maximum: 255 }
+ * ```
+ */
+export type JsonSchema = { [keyword: string]: JsonValue }
+
+/**
+ * A function that contributes JSON Schema keywords for a constraint, based on
+ * the constraint's metadata.
+ *
+ * @param meta The metadata of the constraint
+ * @param type The underlying type of the prim constructor: `'boolean'`,
+ *        `'string'`, `'number'` or `'bigint'`
+ * @returns The keywords contributed by the constraint
+ *
+ * @see {@link jsonSchemaKeywords}
+ */
+export type JsonSchemaKeywords =
+  (meta: ConstraintMeta, type: string) => JsonSchema
+
+/**
+ * The pattern used for `bigint` values, which are represented in JSON as
+ * strings, since JSON cannot carry `bigint`.
+ */
+export const bigintPattern = '^-?(0|[1-9][0-9]*)$'
+
+/** The pattern used for unsigned `bigint` values. */
+export const ubigintPattern = '^(0|[1-9][0-9]*)$'
+
+/**
+ * JSON Schema measures `maxLength` in code points. A maximum in UTF-16 code
+ * units or UTF-8 bytes is also a maximum in code points, but a maximum in
+ * grapheme clusters is not, so that can not be expressed.
+ */
+const unitMaxLength = (
+  max: number, unit: ConstraintParams[string] = 'utf16'
+): JsonSchema =>
+  unit == 'grapheme' ? {} : { maxLength: max }
+
+/**
+ * A minimum in code points or grapheme clusters is also a minimum in code
+ * points, but a minimum in UTF-16 code units or UTF-8 bytes only implies a
+ * minimum of respectively a half and a quarter of that in code points.
+ */
+const unitMinLength = (
+  min: number, unit: ConstraintParams[string] = 'utf16'
+): JsonSchema => ({
+  minLength: Math.ceil(min / (unit == 'utf16' ? 2 : unit == 'utf8' ? 4 : 1))
+})
+
+/** Whether the bound `b` of a range, a `number` or `bigint`, is finite */
+const isFiniteBound = (b: ConstraintParams[string]) =>
+  typeof b == 'bigint' || Number.isFinite(b)
+
+/**
+ * The JSON Schema `format`s for the names of patterns, e.g. `'uri'` for the
+ * pattern named `'url'`.
+ *
+ * Patterns with a name that has no entry here only contribute the `pattern`
+ * keyword.
+ */
+export const jsonSchemaFormats: { [name: string]: string } = {
+  email: 'email',
+  uuid: 'uuid',
+  url: 'uri',
+  isoDate: 'date',
+  isoDateTime: 'date-time',
+}
+
+/**
+ * The JSON Schema keywords contributed by each kind of constraint.
+ *
+ * Custom constraints can contribute keywords of their own by adding an entry
+ * for their kind:
+ *
+ * ```ts
+ * import { constraint, jsonSchemaKeywords } from 'ts-prims'
+ *
+ * const isEven = constraint('even', {}, (pc, v) => ...)
+ * jsonSchemaKeywords.even = () => ({ multipleOf: 2 })
+ * ```
+ *
+ * @see {@link toJsonSchema}
+ */
+export const jsonSchemaKeywords: {
+  [kind in ConstraintKind | string]?: JsonSchemaKeywords
+} = {
+  super: (meta, type): JsonSchema =>
+    type == 'bigint' ? { type: 'string', pattern: bigintPattern } :
+    { type },
+  integer: (meta, type): JsonSchema =>
+    type == 'number' ? { type: 'integer' } : {},
+  width: ({ params: { min, max } }, type): JsonSchema =>
+    type == 'number' ? { minimum: Number(min), maximum: Number(max) } :
+    { maxLength: `${min}`.length },
+  uwidth: ({ params: { min, max } }, type): JsonSchema =>
+    type == 'number' ? { minimum: Number(min), maximum: Number(max) } :
+    { pattern: ubigintPattern, maxLength: `${max}`.length },
+  range: ({ params: { min, max } }, type): JsonSchema =>
+    type == 'number' ? {
+      // JSON can not represent infinite bounds
+      ...(isFiniteBound(min) ? { minimum: Number(min) } : {}),
+      ...(isFiniteBound(max) ? { maximum: Number(max) } : {})
+    } : {},
+  pattern: ({ params: { pattern, flags, name } }): JsonSchema => ({
+    // JSON Schema patterns can not carry flags
+    ...(flags ? {} : { pattern: `${pattern}` }),
+    ...(`${name}` in jsonSchemaFormats ?
+      { format: jsonSchemaFormats[`${name}`] } : {})
+  }),
+  length: ({ params: { max, unit } }) =>
+    unitMaxLength(Number(max), unit),
+  chars: ({ params: { max, unit } }) =>
+    unitMaxLength(Number(max), unit),
+  fixed: ({ params: { length, unit } }) =>
+    unitMinLength(Number(length), unit),
+  enum: ({ params: { values } }): JsonSchema => ({
+    enum: (values as PRIM[]).map(v => typeof v == 'bigint' ? `${v}` : v)
+  }),
+}
+
+/**
+ * Adds `null` to the values accepted by `schema`, i.e. to its `type` and to
+ * its `enum` or `const`, which would reject `null` otherwise.
+ */
+const nullableJsonSchema = ({ const: value, ...schema }: JsonSchema) => ({
+  ...schema,
+  type: [ schema.type, 'null' ],
+  ...(value !== undefined ? { enum: [ value, null ] } :
+    Array.isArray(schema.enum) ? { enum: [ ...schema.enum, null ] } :
+    {})
+}) as JsonSchema
+
+/**
+ * Converts the constructor `pc` into a JSON Schema (draft 2020-12) fragment.
+ *
+ * The keywords are contributed by the constraints of `pc`, in order, based
+ * on their metadata:
+ *
+ * ```ts
+ * import { Int8, Varchar, Big64, toJsonSchema } from 'ts-prims'
+ *
+ * toJsonSchema(Int8)
+ * // { type: 'integer', minimum: -128, maximum: 127 }
+ * toJsonSchema(Varchar(64))
+ * // { type: 'string', maxLength: 64 }
+ * toJsonSchema(Big64)
+ * // { type: 'string', pattern: '^-?(0|[1-9][0-9]*)$', maxLength: 20 }
+ * ```
+ *
+ * `bigint` values are represented as strings, since JSON cannot carry
+ * `bigint`. JSON Schema can not bound the value of a string, so the bounds
+ * of `bigint` types are not exported: their width only contributes a
+ * `maxLength` for the number of digits, which is looser than the width, and
+ * their range constraints contribute nothing.
+ *
+ * JSON Schema measures lengths in code points. A maximum length in UTF-16
+ * code units or UTF-8 bytes is also a maximum in code points, but a minimum
+ * length is weakened: `n` UTF-16 code units may be as few as `ceil(n/2)`
+ * code points, and `n` UTF-8 bytes as few as `ceil(n/4)`. So `Char(4)` gets
+ * `minLength: 2`. Lengths in grapheme clusters only contribute a minimum.
+ * Only a fixed length in code points, like that of
+ * `Char(4, { unit: 'codepoint' })`, gives an exact `minLength` and
+ * `maxLength`.
+ *
+ * When multiple constraints contribute the same bound, e.g. `maximum`, the
+ * tightest bound is kept. Constraints without metadata, or of a kind without
+ * an entry in `jsonSchemaKeywords`, contribute nothing.
+ *
+ * For a `Nullable` constructor, `null` is added to the `type`, and to the
+ * `enum` or `const` if there is one. JSON has no `undefined`, so an
+ * `Optional` constructor has the schema of the constructor it wraps:
+ *
+ * ```ts
+ * toJsonSchema(Nullable(Int8))
+ * // { type: [ 'integer', 'null' ], minimum: -128, maximum: 127 }
+ * toJsonSchema(Nullable(Enum('color', [ 'red', 'green' ] as const)))
+ * // { type: [ 'string', 'null' ], enum: [ 'red', 'green', null ] }
+ * ```
+ *
+ * @template P The primitive type
+ * @param pc The constructor
+ * @returns The JSON Schema fragment
+ *
+ * @see {@link jsonSchemaKeywords}
+ */
+export const toJsonSchema = <P extends PRIM> (
+  pc: Constructor<P> | OptionalConstructor<P, Absent>
+): JsonSchema => {
+  if (isOptional(pc)) {
+    const schema = toJsonSchema(pc.of)
+    return pc.absent === null ? nullableJsonSchema(schema) : schema
+  }
+  const type = primTypeOf(pc)
+  return constraintsOf(pc).reduce((schema, c) => {
+    const keywords = c.meta && jsonSchemaKeywords[c.meta.kind]
+    return keywords ?
+      mergeJsonSchema(schema, keywords(c.meta!, type)) :
+      schema
+  }, {} as JsonSchema)
+}
+
+/** The bounds keywords, which are merged by keeping the tightest bound */
+const lowerBounds = [ 'minimum', 'minLength' ]
+const upperBounds = [ 'maximum', 'maxLength' ]
+
+/**
+ * Merges the `keywords` into `schema`.
+ *
+ * Bounds like `minimum` and `maxLength` keep the tightest of both values.
+ * All other keywords in `keywords` override those in `schema`.
+ */
+const mergeJsonSchema = (schema: JsonSchema, keywords: JsonSchema) => {
+  const result = { ...schema }
+  for (const [key, value] of Object.entries(keywords)) {
+    const prev = result[key]
+    result[key] =
+      typeof prev != 'number' || typeof value != 'number' ? value :
+      lowerBounds.includes(key) ? Math.max(prev, value) :
+      upperBounds.includes(key) ? Math.min(prev, value) :
+      value
+  }
+  return result
+}
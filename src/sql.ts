@@ -0,0 +1,359 @@
+/** Copyright 2025 by Stijn de Witt, some rights reserved */
+import type { PRIM, Constructor, ConstraintMeta } from './prim.js'
+import { constraintsOf, constraintMeta, primTypeOf } from './prim.js'
+import type { Bound } from './range.js'
+import type { LengthUnit } from './length.js'
+import { type Absent, type OptionalConstructor,
+  isOptional } from './optional.js'
+
+/**
+ * The SQL dialects supported by {@link toSqlType} and {@link createTable}.
+ */
+export type SqlDialect = 'postgres' | 'mysql' | 'sqlite'
+
+/**
+ * The columns of a table, mapping the column names to the constructors of
+ * their types.
+ *
+ * ```ts
+ * const columns: SqlColumns = {
+ *   id: Int32, name: Varchar(64), bio: Nullable(Memo)
+ * }
+ * ```
+ *
+ * Columns with an `Optional` or `Nullable` constructor are nullable.
+ *
+ * @see {@link createTable}
+ */
+export type SqlColumns = {
+  [column: string]: Constructor<PRIM> | OptionalConstructor<PRIM, Absent>
+}
+
+/**
+ * A SQL column type, with the range of values it enforces by itself.
+ *
+ * `numeric` column types can be checked against a range, which they enforce
+ * by themselves from `min` to `max`, if present. When `length` is present,
+ * the column type enforces that maximum number of characters, and when
+ * `fixed` is set, it pads shorter values to that length.
+ */
+type SqlColumnType = {
+  type: string
+  numeric?: boolean
+  min?: Bound
+  max?: Bound
+  length?: number
+  fixed?: boolean
+}
+
+/** The integer column types of each dialect, with their widths in bits */
+const sqlIntegerTypes: { [dialect in SqlDialect]: [string, number][] } = {
+  postgres: [ [ 'SMALLINT', 16 ], [ 'INTEGER', 32 ], [ 'BIGINT', 64 ] ],
+  mysql: [ [ 'TINYINT', 8 ], [ 'SMALLINT', 16 ], [ 'MEDIUMINT', 24 ],
+    [ 'INT', 32 ], [ 'BIGINT', 64 ] ],
+  sqlite: [ [ 'INTEGER', 64 ] ],
+}
+
+/** The maximum precision of `NUMERIC(p)` in each dialect */
+const sqlNumericPrecision: { [dialect in SqlDialect]: number } = {
+  postgres: 1000,
+  mysql: 65,
+  sqlite: 0,
+}
+
+/**
+ * Gets the integer column type of `dialect` for the range `min` .. `max`.
+ *
+ * Picks the narrowest native integer type that holds the range, an unsigned
+ * one on MySQL for unsigned ranges, and falls back to `NUMERIC(p)`. Ranges
+ * that exceed the precision of `NUMERIC` are stored as text, like they are
+ * in JSON.
+ */
+const sqlIntegerType = (
+  min: bigint, max: bigint, dialect: SqlDialect
+): SqlColumnType => {
+  for (const [ type, bits ] of sqlIntegerTypes[dialect]) {
+    const sh = 1n << BigInt(bits - 1)
+    if (min >= -sh && max < sh)
+      return { type, numeric: true, min: -sh, max: sh - 1n }
+    if (dialect == 'mysql' && min >= 0n && max < sh * 2n) return {
+      type: `${type} UNSIGNED`, numeric: true, min: 0n, max: sh * 2n - 1n
+    }
+  }
+  const digits = Math.max(`${min}`.replace('-', '').length, `${max}`.length)
+  if (digits <= sqlNumericPrecision[dialect]) {
+    const lim = 10n ** BigInt(digits) - 1n
+    return { type: `NUMERIC(${digits})`, numeric: true, min: -lim, max: lim }
+  }
+  return (
+    dialect == 'postgres' ? { type: 'NUMERIC', numeric: true } :
+    dialect == 'mysql' ? { type: `VARCHAR(${`${min}`.length})` } :
+    { type: 'TEXT' }
+  )
+}
+
+/**
+ * Gets the string column type of `dialect` for the length constraints in
+ * `metas`.
+ *
+ * `char`s, which have a `fixed` length, map to `CHAR(n)` and `varchar`s,
+ * which are constrained in `chars`, map to `VARCHAR(n)`. Other strings map
+ * to the text types. SQLite does not enforce lengths, so there all strings
+ * map to `TEXT`.
+ */
+const sqlStringType = (
+  metas: ConstraintMeta[], dialect: SqlDialect
+): SqlColumnType => {
+  // a length in UTF-16 code units or UTF-8 bytes is also a length in chars
+  const length = metas
+    .filter(({ kind, params: { unit } }) =>
+      kind != 'fixed' && unit != 'grapheme'
+    )
+    .reduce((r, { params: { max } }) => Math.min(r, Number(max)), Infinity)
+  const chars = metas.some(({ kind }) => kind == 'chars')
+  const fixed = metas.some(({ kind }) => kind == 'fixed')
+  return (
+    length == Infinity || dialect == 'sqlite' ? { type: 'TEXT' } :
+    // SQL pads `CHAR` values, so the minimum is enforced as well
+    fixed ? { type: `CHAR(${length})`, length, fixed } :
+    chars ? { type: `VARCHAR(${length})`, length } :
+    dialect == 'postgres' ? { type: 'TEXT' } :
+    // MySQL limits its text types in bytes, up to 4 per char
+    length * 4 <= 0xFFFF ? { type: 'TEXT' } :
+    length * 4 <= 0xFFFFFF ? { type: 'MEDIUMTEXT' } :
+    { type: 'LONGTEXT' }
+  )
+}
+
+/** Gets the metadata of the constraints of `pc` of the given `kinds` */
+const metasOf = <P extends PRIM> (pc: Constructor<P>, kinds: string[]) =>
+  constraintsOf(pc)
+    .map(c => c.meta)
+    .filter((meta): meta is ConstraintMeta =>
+      meta !== undefined && kinds.includes(meta.kind)
+    )
+
+/** Gets the column type of `pc`, with the range it enforces by itself */
+const sqlColumnType = <P extends PRIM> (
+  pc: Constructor<P> | OptionalConstructor<P, Absent>, dialect: SqlDialect
+): SqlColumnType => {
+  if (isOptional(pc)) return sqlColumnType(pc.of, dialect)
+  const type = primTypeOf(pc)
+  if (type == 'boolean') return {
+    type: dialect == 'sqlite' ? 'INTEGER' : 'BOOLEAN'
+  }
+  if (type == 'string')
+    return sqlStringType(metasOf(pc, [ 'length', 'chars', 'fixed' ]), dialect)
+  const width = constraintMeta(pc, 'uwidth') ?? constraintMeta(pc, 'width')
+  if (width) return sqlIntegerType(
+    BigInt(width.params.min as bigint), BigInt(width.params.max as bigint),
+    dialect
+  )
+  const float = constraintMeta(pc, 'float')
+  if (float && float.params.bits == 32) return { type:
+    dialect == 'mysql' ? 'FLOAT' : 'REAL', numeric: true
+  }
+  return (
+    type == 'number' ? { type:
+      dialect == 'postgres' ? 'DOUBLE PRECISION' :
+      dialect == 'mysql' ? 'DOUBLE' :
+      'REAL', numeric: true } :
+    dialect == 'sqlite' ? { type: 'TEXT' } :
+    { type: 'NUMERIC', numeric: true }
+  )
+}
+
+/**
+ * Converts the constructor `pc` into a SQL column type for `dialect`.
+ *
+ * Integers map to the narrowest integer type that holds their width, strings
+ * with a `fixed` length to `CHAR(n)`, strings constrained in `chars` to
+ * `VARCHAR(n)` and other strings to the text types:
+ *
+ * | prim          | `postgres`    | `mysql`            | `sqlite`  |
+ * | ------------- | ------------- | ------------------ | --------- |
+ * | `int8`        | `SMALLINT`    | `TINYINT`          | `INTEGER` |
+ * | `int16`       | `SMALLINT`    | `SMALLINT`         | `INTEGER` |
+ * | `int24`       | `INTEGER`     | `MEDIUMINT`        | `INTEGER` |
+ * | `uint32`      | `BIGINT`      | `INT UNSIGNED`     | `INTEGER` |
+ * | `int54`       | `BIGINT`      | `BIGINT`           | `INTEGER` |
+ * | `big128`      | `NUMERIC(39)` | `NUMERIC(39)`      | `TEXT`    |
+ * | `float32`     | `REAL`        | `FLOAT`            | `REAL`    |
+ * | `float64`     | `DOUBLE PRECISION` | `DOUBLE`      | `REAL`    |
+ * | `char<3>`     | `CHAR(3)`     | `CHAR(3)`          | `TEXT`    |
+ * | `varchar<64>` | `VARCHAR(64)` | `VARCHAR(64)`      | `TEXT`    |
+ * | `memo`        | `TEXT`        | `TEXT`             | `TEXT`    |
+ * | `clob`        | `TEXT`        | `LONGTEXT`         | `TEXT`    |
+ *
+ * Integers that exceed the precision of `NUMERIC` in the dialect are stored
+ * as text, like they are in JSON. `Optional` and `Nullable` constructors
+ * have the column type of the constructor they wrap. The column type alone
+ * does not always enforce the constraints of `pc`, e.g. an `int8` in a
+ * `SMALLINT`.
+ *
+ * @template P The primitive type
+ * @param pc The constructor
+ * @param dialect The SQL dialect, defaults to `'postgres'`
+ * @returns The column type
+ *
+ * @see {@link sqlChecks} for the checks the column type does not enforce
+ * @see {@link createTable} to generate a `CREATE TABLE` statement
+ */
+export const toSqlType = <P extends PRIM> (
+  pc: Constructor<P> | OptionalConstructor<P, Absent>,
+  dialect: SqlDialect = 'postgres'
+) =>
+  sqlColumnType(pc, dialect).type
+
+/** The functions measuring the length of strings, per dialect and unit */
+const sqlLengthFunctions: {
+  [dialect in SqlDialect]: (column: string, unit: LengthUnit) => string
+} = {
+  postgres: (column, unit) =>
+    unit == 'utf8' ? `octet_length(${column})` : `char_length(${column})`,
+  mysql: (column, unit) =>
+    unit == 'utf8' ? `LENGTH(${column})` : `CHAR_LENGTH(${column})`,
+  sqlite: (column, unit) =>
+    unit == 'utf8' ? `length(CAST(${column} AS BLOB))` : `length(${column})`,
+}
+
+/** Renders the value `v` as a SQL literal */
+const sqlLiteral = (v: PRIM) =>
+  typeof v == 'string' ? `'${v.replace(/'/g, "''")}'` :
+  typeof v == 'boolean' ? (v ? 'TRUE' : 'FALSE') :
+  `${v}`
+
+/** Quotes the identifier `name` for `dialect` */
+const sqlIdentifier = (name: string, dialect: SqlDialect) =>
+  dialect == 'mysql' ? `\`${name.replace(/`/g, '``')}\`` :
+  `"${name.replace(/"/g, '""')}"`
+
+/**
+ * Generates the `CHECK` expressions for the constraints of `pc` that the
+ * column type of `pc` does not enforce by itself.
+ *
+ * ```ts
+ * import { Int8, Varchar, sqlChecks } from 'ts-prims'
+ *
+ * sqlChecks(Int8, 'age')
+ * // [ '"age" BETWEEN -128 AND 127' ]
+ * sqlChecks(Int8, 'age', 'mysql')
+ * // []
+ * sqlChecks(Varchar(64), 'name', 'sqlite')
+ * // [ 'length("name") <= 64' ]
+ * ```
+ *
+ * Ranges come from the `width`, `uwidth` and `range` constraints, lengths
+ * from the `length`, `chars` and `fixed` constraints and the allowed values
+ * from the `enum` constraint. Databases count
+ * lengths in chars (code points), or in bytes for lengths in `utf8`. A
+ * length in UTF-16 code units is checked as a length in chars, which accepts
+ * all values `pc` accepts. Maximum lengths in graphemes can not be checked.
+ *
+ * A fixed length in chars or bytes is checked exactly, with `=`. A fixed
+ * length in UTF-16 code units or graphemes only gets a loose minimum, e.g.
+ * `length("code") >= 2` for `Char(3)`, since 3 code units may be 2 chars.
+ *
+ * @template P The primitive type
+ * @param pc The constructor
+ * @param column The name of the column
+ * @param dialect The SQL dialect, defaults to `'postgres'`
+ * @returns The check expressions, without the `CHECK` keyword
+ */
+export const sqlChecks = <P extends PRIM> (
+  pc: Constructor<P> | OptionalConstructor<P, Absent>,
+  column: string,
+  dialect: SqlDialect = 'postgres'
+): string[] => {
+  // `NULL` passes any check
+  if (isOptional(pc)) return sqlChecks(pc.of, column, dialect)
+  const col = sqlColumnType(pc, dialect)
+  const name = sqlIdentifier(column, dialect)
+  const checks: string[] = []
+  if (col.numeric) {
+    const bounds = metasOf(pc, [ 'width', 'uwidth', 'range' ])
+    const min = bounds.reduce<Bound | undefined>((r, { params: { min } }) =>
+      r === undefined || (min as Bound) > r ? min as Bound : r, undefined)
+    const max = bounds.reduce<Bound | undefined>((r, { params: { max } }) =>
+      r === undefined || (max as Bound) < r ? max as Bound : r, undefined)
+    const lo = min !== undefined && min !== -Infinity &&
+      (col.min === undefined || min > col.min)
+    const hi = max !== undefined && max !== Infinity &&
+      (col.max === undefined || max < col.max)
+    if (lo && hi) checks.push(`${name} BETWEEN ${min} AND ${max}`)
+    else if (lo) checks.push(`${name} >= ${min}`)
+    else if (hi) checks.push(`${name} <= ${max}`)
+  }
+  const lengths = metasOf(pc, [ 'length', 'chars' ])
+    .reduce((r, { params: { max, unit = 'utf16' } }) => {
+      const u = unit == 'utf8' ? 'utf8' : 'codepoint'
+      if (unit != 'grapheme') r[u] = Math.min(r[u] ?? Infinity, Number(max))
+      return r
+    }, {} as { [unit in LengthUnit]?: number })
+  for (const [ unit, max ] of Object.entries(lengths)) {
+    if (unit == 'utf8' || col.length === undefined || max < col.length)
+      checks.push(
+        `${sqlLengthFunctions[dialect](name, unit as LengthUnit)} <= ${max}`
+      )
+  }
+  const members = constraintMeta(pc, 'enum')
+  if (members) {
+    const values = members.params.values as PRIM[]
+    checks.push(`${name} IN (${values.map(sqlLiteral).join(', ')})`)
+  }
+  const fixed = constraintMeta(pc, 'fixed')
+  if (fixed && !col.fixed) {
+    const { length, unit } = fixed.params
+    const fn = sqlLengthFunctions[dialect](name, unit as LengthUnit)
+    // a maximum of the same length in the same unit makes it exact
+    const max = unit == 'codepoint' || unit == 'utf8' ?
+      checks.indexOf(`${fn} <= ${length}`) : -1
+    // a length in UTF-16 code units is at least half that in chars
+    const min = unit == 'utf16' ? Math.ceil(Number(length) / 2) : length
+    if (max != -1) checks[max] = `${fn} = ${length}`
+    else checks.push(`${fn} >= ${min}`)
+  }
+  return checks
+}
+
+/**
+ * Generates a `CREATE TABLE` statement for the table `name` with `columns`.
+ *
+ * Each column gets the type from `toSqlType` and is `NOT NULL`, unless its
+ * constructor is `Optional` or `Nullable`. The constraints that the column
+ * type does not enforce by itself become `CHECK` constraints:
+ *
+ * ```ts
+ * import { Int8, Uint32, Varchar, createTable } from 'ts-prims'
+ *
+ * createTable('users', { id: Uint32, name: Varchar(64), age: Int8 })
+ * // CREATE TABLE "users" (
+ * //   "id" BIGINT NOT NULL CHECK ("id" BETWEEN 0 AND 4294967295),
+ * //   "name" VARCHAR(64) NOT NULL,
+ * //   "age" SMALLINT NOT NULL CHECK ("age" BETWEEN -128 AND 127)
+ * // );
+ * ```
+ *
+ * Identifiers are always quoted, so reserved words can be used as names.
+ *
+ * @param name The name of the table
+ * @param columns The columns of the table
+ * @param dialect The SQL dialect, defaults to `'postgres'`
+ * @returns The `CREATE TABLE` statement
+ *
+ * @see {@link toSqlType}
+ * @see {@link sqlChecks}
+ */
+export const createTable = (
+  name: string, columns: SqlColumns, dialect: SqlDialect = 'postgres'
+) => {
+  const definitions = Object.entries(columns).map(([ column, pc ]) => [
+    sqlIdentifier(column, dialect),
+    toSqlType(pc, dialect),
+    isOptional(pc) ? 'NULL' : 'NOT NULL',
+    ...sqlChecks(pc, column, dialect).map(check => `CHECK (${check})`)
+  ].join(' '))
+  return `CREATE TABLE ${sqlIdentifier(name, dialect)} (\n` +
+    definitions.map(d => `  ${d}`).join(',\n') +
+    `\n);`
+}
@@ -1,6 +1,8 @@
 import { type length, lengthConstraint } from './length.js'
 import { type prim, Prim } from './prim.js'
+import { register } from './registry.js'
 // for linking from jsdoc comments:
+import type { measuredIn } from './unit.js'
 import type { clob } from './clob.js'
 import type { memo } from './memo.js'
 import type { varchar } from './varchar.js'
@@ -38,8 +40,11 @@ export type text =
  * x = Text('Checked at runtime')
  * ```
  *
+ * Use `measuredIn` to measure its length in a different `LengthUnit`.
+ *
  * @see {@link text}
+ * @see {@link measuredIn}
  */
-export const Text = Prim<text>(
+export const Text = register(Prim<text>(
   `text`, String, [ lengthConstraint(14) ]
-)
+))
@@ -0,0 +1,83 @@
+/** Copyright 2025 by Stijn de Witt, some rights reserved */
+import type { PRIM, Transform } from './prim.js'
+import { transform } from './prim.js'
+// For linking from jsdoc comments
+import type { Prim } from './prim.js'
+
+/**
+ * Removes leading and trailing whitespace from strings.
+ *
+ * ```ts
+ * const Name = Prim<varchar<64>>('name', Varchar(64), [], trim)
+ * Name('  Alice ') // 'Alice'
+ * ```
+ *
+ * @see {@link Prim} for how to declare the transforms of a type
+ */
+export const trim: Transform = transform('trim', {},
+  (v: PRIM) => typeof v == 'string' ? v.trim() : v
+)
+
+/**
+ * Trims strings and collapses every run of whitespace inside them to a single
+ * space.
+ *
+ * ```ts
+ * collapseWhitespace(' Alice \n  Smith ') // 'Alice Smith'
+ * ```
+ *
+ * @see {@link trim} to only remove leading and trailing whitespace
+ */
+export const collapseWhitespace: Transform = transform('collapse', {},
+  (v: PRIM) => typeof v == 'string' ? v.trim().replace(/\s+/g, ' ') : v
+)
+
+/** The Unicode normalization forms supported by {@link normalize} */
+export type NormalizationForm = 'NFC' | 'NFD' | 'NFKC' | 'NFKD'
+
+/**
+ * Returns a transform applying Unicode normalization form `form` to strings.
+ *
+ * Normalization makes canonically equivalent strings, e.g. `'é'` written as
+ * one code point or as `'e'` followed by a combining accent, equal. The
+ * compatibility forms (`NFKC`, `NFKD`) additionally fold variants such as
+ * ligatures and full-width letters.
+ *
+ * ```ts
+ * normalize('NFKC')('ﬁ') // 'fi'
+ * ```
+ *
+ * @param form The normalization form, defaults to `'NFC'`
+ * @returns The normalizing transform
+ */
+export const normalize =
+  (form: NormalizationForm = 'NFC'): Transform =>
+  transform('normalize', { form },
+    (v: PRIM) => typeof v == 'string' ? v.normalize(form) : v
+  )
+
+/** Converts strings to lower case */
+export const lowercase: Transform = transform('lowercase', {},
+  (v: PRIM) => typeof v == 'string' ? v.toLowerCase() : v
+)
+
+/**
+ * Converts the number `-0` to `0`.
+ *
+ * `-0` passes all numeric constraints, but behaves differently from `0`,
+ * e.g. `1 / -0` is `-Infinity` and `Object.is(-0, 0)` is `false`.
+ */
+export const unsignedZero: Transform = transform('unsignedZero', {},
+  (v: PRIM) => Object.is(v, -0) ? 0 : v
+)
+
+/**
+ * Rounds numbers to the nearest 32-bit float, like `Math.fround` does.
+ *
+ * ```ts
+ * fround(0.1) // 0.10000000149011612
+ * ```
+ */
+export const fround: Transform = transform('fround', {},
+  (v: PRIM) => typeof v == 'number' ? Math.fround(v) : v
+)
@@ -0,0 +1,183 @@
+import type { uwidth, Width, _54bit, _64bit, _96bit,
+  _128bit, _160bit, _192bit, _256bit, _512bit, _4Kbit } from './width.js'
+import { uwidthConstraint } from './width.js'
+import { type prim, Prim } from './prim.js'
+import { integerConstructor } from './arithmetic.js'
+import { register } from './registry.js'
+import { isInteger } from './varint.js'
+// For linking from jsdoc comments
+import type { big } from './big.js'
+import type { uint, uint54 } from './uint.js'
+import type { uvarint } from './uvarint.js'
+
+/**
+ * Unsigned big int type with high int width `W`.
+ *
+ * The unsigned counterpart of `big`, ranging from `0` up to `2^bits-1`.
+ * An unsigned big int fits in the next wider signed `big`, but not in the
+ * signed `big` of the same width.
+ *
+ * ```ts
+ * import type { ubig, _64bit } from 'ts-prims'
+ *
+ * type ulong = ubig<_64bit>
+ * // type ulong = bigint & supertype<bigint> & uwidth<8>
+ * ```
+ *
+ * `ubig` numbers are always backed by `bigint` values, which is less
+ * performant than `number`, so for small `W`, prefer `uint` instead. If you
+ * need a type that uses either `number` or `bigint` depending on the width,
+ * use `uvarint`.
+ *
+ * @template W The width
+ * @returns The unsigned bigint type with the specified (high) width
+ *
+ * @see {@link ubig64} for the first ubig in the high-width (slow) range
+ * @see {@link uint} for the uints in the low-width (fast) range
+ * @see {@link uvarint} for the low-level type that accepts all widths
+ * @see {@link big} for the signed counterpart
+ */
+export type ubig <W extends Width> =
+  prim<bigint, uwidth<W>>
+
+/**
+ * Returns a constructor for unsigned `big` integer numbers with the given
+ * Width `W`.
+ *
+ * @template W The `Width`, inferred from parameter `w`.
+ *
+ * @param w The width of this type
+ * @returns The constructor for `ubig<W>`
+ *
+ * @see {@link ubig} For the prim type
+ * @see {@link isInteger} constraint that values must be integer
+ * @see {@link uwidthConstraint} constraint that values must be within width `W`
+ */
+export const Ubig = <W extends Width> (w:W) =>
+  register(integerConstructor(Prim<ubig<W>> (
+    `ubig<${w}>`, BigInt, [ isInteger, uwidthConstraint(w) ]
+  )))
+
+/**
+ * `64`-bit unsigned integer in the `HighWidth` (slow) range.
+ *
+ * **warning: may degrade performance!**
+ * The Javascript platform only supports up to `54`-bit integers with the
+ * native `number` type. Therefore, values of type `ubig64` are unfortunately
+ * stored as `bigint`, which is a variable-width format that supports ints
+ * with hundreds or even thousands of bits, but is much slower than
+ * native `number`. If it is possible to use `uint54` instead, prefer that.
+ * Most other platforms have native support for `64`-bit integers, but if
+ * you want true cross-platform performance guarantees, stick to `uint54`.
+ *
+ * @see {@link uint54} for the last uint in the low-width (fast) range
+ * @see {@link ubig128} for the next uint in the high-width (slow) range
+ */
+export type ubig64 = ubig<_64bit>
+
+/** Constructor for {@link ubig64} */
+export const Ubig64 = Ubig(8)
+
+/**
+ * `96`-bit unsigned integer in the `HighWidth` (slow) range.
+ *
+ * **warning: may degrade performance!**
+ * Most platforms have no native support for `96`-bit numbers. We emulate
+ * them, in this case with `bigint` and on other platforms in similar ways.
+ *
+ * @see {@link ubig64} for the previous uint in the high-width (slow) range
+ * @see {@link ubig128} for the next uint in the high-width (slow) range
+ */
+export type ubig96 = ubig<_96bit>
+
+/** Constructor for {@link ubig96} */
+export const Ubig96 = Ubig(9)
+
+/**
+ * `128`-bit unsigned integer in the `HighWidth` (slow) range.
+ *
+ * **warning: may degrade performance!**
+ * Most platforms have no native support for `128`-bit numbers. We emulate
+ * them, in this case with `bigint` and on other platforms in similar ways.
+ *
+ * @see {@link ubig96} for the previous uint in the high-width (slow) range
+ * @see {@link ubig160} for the next uint in the high-width (slow) range
+ */
+export type ubig128 = ubig<_128bit>
+
+/** Constructor for {@link ubig128} */
+export const Ubig128 = Ubig(10)
+
+/**
+ * `160`-bit unsigned integer in the `HighWidth` (slow) range.
+ *
+ * **warning: may degrade performance!**
+ * Most platforms have no native support for `160`-bit numbers. We emulate
+ * them, in this case with `bigint` and on other platforms in similar ways.
+ *
+ * @see {@link ubig128} for the previous uint in the high-width (slow) range
+ * @see {@link ubig192} for the next uint in the high-width (slow) range
+ */
+export type ubig160 = ubig<_160bit>
+
+/** Constructor for {@link ubig160} */
+export const Ubig160 = Ubig(11)
+
+/**
+ * `192`-bit unsigned integer in the `HighWidth` (slow) range.
+ *
+ * **warning: may degrade performance!**
+ * Most platforms have no native support for `192`-bit numbers. We emulate
+ * them, in this case with `bigint` and on other platforms in similar ways.
+ *
+ * @see {@link ubig160} for the previous uint in the high-width (slow) range
+ * @see {@link ubig256} for the next uint in the high-width (slow) range
+ */
+export type ubig192 = ubig<_192bit>
+
+/** Constructor for {@link ubig192} */
+export const Ubig192 = Ubig(12)
+
+/**
+ * `256`-bit unsigned integer in the `HighWidth` (slow) range.
+ *
+ * **warning: may degrade performance!**
+ * Most platforms have no native support for `256`-bit numbers. We emulate
+ * them, in this case with `bigint` and on other platforms in similar ways.
+ *
+ * @see {@link ubig192} for the previous uint in the high-width (slow) range
+ * @see {@link ubig512} for the next uint in the high-width (slow) range
+ */
+export type ubig256 = ubig<_256bit>
+
+/** Constructor for {@link ubig256} */
+export const Ubig256 = Ubig(13)
+
+/**
+ * `512`-bit unsigned integer in the `HighWidth` (slow) range.
+ *
+ * **warning: may degrade performance!**
+ * Most platforms have no native support for `512`-bit numbers. We emulate
+ * them, in this case with `bigint` and on other platforms in similar ways.
+ *
+ * @see {@link ubig256} for the previous uint in the high-width (slow) range
+ * @see {@link ubig4K} for the next uint in the high-width (slow) range
+ */
+export type ubig512 = ubig<_512bit>
+
+/** Constructor for {@link ubig512} */
+export const Ubig512 = Ubig(14)
+
+/**
+ * `4K`-bit unsigned integer in the `HighWidth` (slow) range.
+ *
+ * **warning: may degrade performance!**
+ * Most platforms have no native support for `4K`-bit numbers. We emulate
+ * them, in this case with `bigint` and on other platforms in similar ways.
+ *
+ * @see {@link ubig512} for the previous uint in the high-width (slow) range
+ */
+export type ubig4K = ubig<_4Kbit>
+
+/** Constructor for {@link ubig4K} */
+export const Ubig4K = Ubig(15)
@@ -0,0 +1,137 @@
+import type { uwidth, LowWidth, _8bit, _16bit, _24bit,
+  _32bit, _40bit, _48bit, _54bit, _64bit } from './width.js'
+import { uwidthConstraint } from './width.js'
+import type { ubig, ubig64 } from './ubig.js'
+import type { int, int16 } from './int.js'
+import { type prim, Prim } from './prim.js'
+import { integerConstructor } from './arithmetic.js'
+import { register } from './registry.js'
+import { isInteger } from './varint.js'
+import { unsignedZero } from './transform.js'
+import type { uvarint } from './uvarint.js'
+
+/**
+ * Unsigned int type with low int width `W`.
+ *
+ * The unsigned counterpart of `int`, ranging from `0` up to `2^bits-1`.
+ * An unsigned int fits in the next wider signed `int`, but not in the
+ * signed `int` of the same width:
+ *
+ * ```ts
+ * let u: uint8 = 200 as uint8
+ * let w: int16 = u // ok
+ * let b: int8 = u // error
+ * // Type 'uint8' is not assignable to type 'int8'.
+ * u = w // error
+ * // Type 'int16' is not assignable to type 'uint8'.
+ * ```
+ *
+ * @template W The width
+ * @returns The unsigned int type with the specified (low) width
+ *
+ * @see {@link uint8} for the first uint in the low-width (fast) range
+ * @see {@link uint54} for the last uint in the low-width (fast) range
+ * @see {@link ubig} for the uints in the high-width (slow) range
+ * @see {@link uvarint} for the low-level type that accepts all widths
+ * @see {@link int} for the signed counterpart
+ */
+export type uint <W extends LowWidth = 7> =
+  prim<number, uwidth<W>>
+
+/**
+ * @template W The `Width`, inferred from parameter `w`.
+ *
+ * @param w The width of this type
+ * @returns The constructor for `uint<W>`
+ *
+ * @see {@link uint}
+ * @see {@link LowWidth}
+ */
+export const Uint = <W extends LowWidth = 7> (w:W = 7 as W) =>
+  register(integerConstructor(Prim<uint<W>> (
+    `uint<${w}>`, Number, [ isInteger, uwidthConstraint(w) ], unsignedZero
+  )))
+
+/**
+ * `8`-bit unsigned integer in the `LowWidth` (fast) range.
+ *
+ * @see {@link uint16} for the next uint in the low-width (fast) range
+ */
+export type uint8 = uint<_8bit>
+
+/** Constructor for {@link uint8} */
+export const Uint8 = Uint(1)
+
+/**
+ * `16`-bit unsigned integer in the `LowWidth` (fast) range.
+ *
+ * @see {@link uint8} for the previous uint in the low-width (fast) range
+ * @see {@link uint24} for the next uint in the low-width (fast) range
+ */
+export type uint16 = uint<_16bit>
+
+/** Constructor for {@link uint16} */
+export const Uint16 = Uint(2)
+
+/**
+ * `24`-bit unsigned integer in the `LowWidth` (fast) range.
+ *
+ * @see {@link uint16} for the previous uint in the low-width (fast) range
+ * @see {@link uint32} for the next uint in the low-width (fast) range
+ */
+export type uint24 = uint<_24bit>
+
+/** Constructor for {@link uint24} */
+export const Uint24 = Uint(3)
+
+/**
+ * `32`-bit unsigned integer in the `LowWidth` (fast) range.
+ *
+ * @see {@link uint24} for the previous uint in the low-width (fast) range
+ * @see {@link uint40} for the next uint in the low-width (fast) range
+ */
+export type uint32 = uint<_32bit>
+
+/** Constructor for {@link uint32} */
+export const Uint32 = Uint(4)
+
+/**
+ * `40`-bit unsigned integer in the `LowWidth` (fast) range.
+ *
+ * @see {@link uint32} for the previous uint in the low-width (fast) range
+ * @see {@link uint48} for the next uint in the low-width (fast) range
+ */
+export type uint40 = uint<_40bit>
+
+/** Constructor for {@link uint40} */
+export const Uint40 = Uint(5)
+
+/**
+ * `48`-bit unsigned integer in the `LowWidth` (fast) range.
+ *
+ * @see {@link uint40} for the previous uint in the low-width (fast) range
+ * @see {@link uint54} for the next uint in the low-width (fast) range
+ */
+export type uint48 = uint<_48bit>
+
+/** Constructor for {@link uint48} */
+export const Uint48 = Uint(6)
+
+/**
+ * `54`-bit unsigned integer in the `LowWidth` (fast) range.
+ *
+ * The widest 'low width' (fast) unsigned integer number type.
+ *
+ * **warning: capped range!**
+ * A Javascript `number` can represent every integer up to `2^53` exactly,
+ * but above that only every other integer. So this type only goes up to
+ * `2^53-1` (`Number.MAX_SAFE_INTEGER`), not `2^54-1`. If you need the full
+ * range, use `ubig64` instead.
+ *
+ * @see {@link uint48} for the previous uint in the low-width (fast) range
+ * @see {@link ubig64} for the first uint in the high-width (slow) range
+ */
+export type uint54 = uint<_54bit>
+
+/** Constructor for {@link uint54} */
+export const Uint54 = Uint(7)
@@ -0,0 +1,82 @@
+/** Copyright 2025 by Stijn de Witt, some rights reserved */
+import type { Constraint, PrimConstructor, SuperConstructor } from './prim.js'
+import { Prim, constraintsOf, transformsOf } from './prim.js'
+import { register } from './registry.js'
+import { type Length, type LengthUnit, lengthConstraint } from './length.js'
+import { type Chars, charsConstraint } from './chars.js'
+import { fixedConstraint } from './char.js'
+// For linking from jsdoc comments
+import type { Varchar } from './varchar.js'
+
+/**
+ * Returns the name for the type named `name` with lengths measured in `unit`.
+ *
+ * ```ts
+ * unitName('memo', 'utf8') // 'memo<utf8>'
+ * unitName('varchar<64>', 'utf8') // 'varchar<64, utf8>'
+ * ```
+ *
+ * @param name The name of the type
+ * @param unit The length unit
+ * @returns The name for the type in `unit`
+ */
+export const unitName = (name: string, unit: LengthUnit) =>
+  unit == 'utf16' ? name :
+  name.endsWith('>') ? `${name.slice(0, -1)}, ${unit}>` :
+  `${name}<${unit}>`
+
+/** Re-creates the length constraint `c` with lengths measured in `unit` */
+const remeasure = (c: Constraint, unit: LengthUnit) =>
+  c.meta?.kind == 'length' ?
+    lengthConstraint(c.meta.params.length as Length, unit) :
+  c.meta?.kind == 'chars' ?
+    charsConstraint(c.meta.params.chars as Chars, unit) :
+  c.meta?.kind == 'fixed' ?
+    fixedConstraint(c.meta.params.length as Chars, unit) :
+  c
+
+/**
+ * Returns a constructor for the string type of `pc`, with its lengths
+ * measured in `unit`, instead of in UTF-16 code units.
+ *
+ * By default, lengths are measured like `String.length` does, in UTF-16 code
+ * units, so an emoji counts as `2`. When strings end up in storage that is
+ * sized differently, measure them in the same unit:
+ *
+ * ```ts
+ * import { Memo, measuredIn } from 'ts-prims'
+ *
+ * const Utf8Memo = measuredIn(Memo, 'utf8')
+ * Utf8Memo.name // 'memo<utf8>'
+ * Utf8Memo('👍'.repeat(1025)) // runtime error
+ * // PrimError: "👍👍👍..." is not assignable to 'memo<utf8>'.
+ * //   Length exceeds 4096 UTF-8 bytes.
+ * ```
+ *
+ * The length constraints of the super constructors of `pc` are re-measured
+ * as well, and the transforms of `pc` are kept. The unit is visible in the
+ * `unit` parameter of the constraint metadata. Note that the unit is only
+ * checked at runtime: at compile time, the returned type is the same as that
+ * of `pc`.
+ *
+ * @template P The string type
+ * @param pc The constructor of the string type
+ * @param unit The unit to measure lengths in
+ * @returns The constructor, with lengths measured in `unit`
+ *
+ * @see {@link LengthUnit}
+ * @see {@link Varchar} which accepts a unit directly
+ */
+export const measuredIn = <P extends string> (
+  pc: PrimConstructor<P>,
+  unit: LengthUnit
+): PrimConstructor<P> => {
+  const own = pc.constraints.slice(constraintsOf(pc.super).length)
+  const transforms = pc.transforms.slice(transformsOf(pc.super).length)
+  const sc = 'super' in pc.super ?
+    measuredIn(pc.super, unit) as SuperConstructor<P> :
+    pc.super
+  return register(Prim<P>(unitName(pc.name, unit), sc,
+    own.map(c => remeasure(c, unit)), transforms
+  ))
+}
@@ -0,0 +1,68 @@
+/** Copyright 2025 by Stijn de Witt, all rights reserved */
+import type { prim } from './prim.js'
+import { Prim } from './prim.js'
+import { integerConstructor } from './arithmetic.js'
+import { register } from './registry.js'
+import type { Width, uwidth } from './width.js'
+import { uwidthConstraint } from './width.js'
+import { type IntegerType, integerType, isInteger } from './varint.js'
+// For linking from jsdoc comments
+import type { varint } from './varint.js'
+import type { uint } from './uint.js'
+import type { ubig } from './ubig.js'
+
+/**
+ * Low-level 'fixed variable-width' unsigned integer type.
+ *
+ * The unsigned counterpart of `varint`. It uses all bits of width `W` for
+ * the magnitude, so it ranges from `0` up to `2^bits-1`. Because of that, an
+ * unsigned integer fits in the next wider signed integer, but not in the
+ * signed integer of the same width:
+ *
+ * ```ts
+ * type ubyte = uvarint<1>
+ * type byte = varint<1>
+ * type word = varint<2>
+ *
+ * let u: ubyte = 200 as ubyte
+ * let w: word = u // ok
+ * let b: byte = u // error
+ * // Type 'ubyte' is not assignable to type 'byte'.
+ * ```
+ *
+ * For maximum performance stick to the `LowWidth` range. Prefer to use `uint`
+ * and `ubig` instead, which communicate the differences.
+ *
+ * @template W The int width
+ * @returns The unsigned int type with the specified width
+ *
+ * @see {@link uint} for the low-width (fast) unsigned int types
+ * @see {@link ubig} for the high-width (slow) unsigned int types
+ * @see {@link varint} for the signed counterpart
+ */
+export type uvarint <W extends Width> =
+  prim<IntegerType<W>, uwidth<W>>
+
+/**
+ * Returns the prim constructor for the `uvarint` with the given Width `W`.
+ *
+ * This constructor function validates that the given value `v` is an
+ * integer and that it is within the unsigned range of the width `w`.
+ *
+ * ```ts
+ * type ubyte = uvarint<1>
+ * const Ubyte = Uvarint(1)
+ * let b: ubyte = Ubyte(-1) // runtime error
+ * // PrimError: -1 is not assignable to 'uvarint<1>'.
+ * //   Not in range 0 .. 255.
+ * ```
+ *
+ * @template W The width (type), inferred from param `w`
+ * @param w The width (value)
+ * @returns The prim constructor function
+ */
+export const Uvarint = <W extends Width> (w:W) =>
+  register(integerConstructor(Prim<uvarint<W>> (
+    `uvarint<${w}>`, integerType<W, uvarint<W>>(w),
+    [ isInteger, uwidthConstraint(w) ]
+  )))
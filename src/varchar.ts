@@ -1,6 +1,9 @@
 /** Copyright 2025 by Stijn de Witt, some rights reserved */
 import { type prim, Prim } from './prim.js'
+import { register } from './registry.js'
 import { type Chars, type chars, charsConstraint } from './chars.js'
+import type { LengthUnit } from './length.js'
+import { unitName } from './unit.js'
 // For linking from jsdoc comments:
 import type { memo } from './memo.js'
 import type { text } from './text.js'
@@ -32,15 +35,26 @@ export type varchar<N extends Chars> =
  * const Zipcode = Varchar(5)
  * let zip: zipcode = Zipcode('90210') // ok
  * let oops: zipcode = Zipcode('Too long!') // runtime error
- * // TypeError: "Too long!" is not of type 'varchar<5>'
+ * // PrimError: "Too long!" is not of type 'varchar<5>'
+ * ```
+ *
+ * The length is measured in UTF-16 code units by default, like
+ * `String.length` does. Pass a different `unit` to measure it in code points,
+ * grapheme clusters or UTF-8 bytes:
+ *
+ * ```ts
+ * const Name = Varchar(64, 'codepoint')
+ * Name.name // 'varchar<64, codepoint>'
  * ```
  *
  * @param n The max length for the varchar type.
  *    Must be a positive integer number in the range `0` .. `256`.
+ * @param unit The unit the length is measured in, defaults to `'utf16'`
  *
  * @returns The prim type constructor function for `varchar<N>`
  */
 export const Varchar =
-  <N extends Chars> (n: N) => Prim <varchar<N>> (
-    `varchar<${n}>`, String, [ charsConstraint(n) ]
-  )
+  <N extends Chars> (n: N, unit: LengthUnit = 'utf16') =>
+  register(Prim<varchar<N>> (
+    unitName(`varchar<${n}>`, unit), String, [ charsConstraint(n, unit) ]
+  ))
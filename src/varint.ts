@@ -2,11 +2,13 @@
 import type {
   prim, PRIM, Constraint, SuperConstructor, PrimConstructor
 } from './prim.js'
-import { Prim, display } from './prim.js'
+import { Prim, constraint, display, primIssue } from './prim.js'
+import { integerConstructor } from './arithmetic.js'
+import { register } from './registry.js'
 import type { Width, width, LowWidth, HighWidth, NumberWidth, _8bit, _16bit,
   _24bit, _32bit, _40bit, _48bit, _54bit, _64bit, _96bit, _128bit, _160bit,
   _192bit, _256bit, _512bit, _4Kbit } from './width.js'
-import { widthConstraint } from './width';
+import { widthConstraint } from './width.js'
 
 /**
  * The possible prim types for the `varint` type.
@@ -53,24 +55,35 @@ export type IntegerType<W extends Width = 7> =
 /**
  * Returns the constructor for the `varint` with the given Width `W`.
  *
+ * This is the single place where integer types are mapped to `number` or
+ * `bigint` at runtime, so other integer types with a width, like `uvarint`,
+ * should use it as well, passing their own type as `P`.
+ *
+ * @template W The width (type), inferred from param `w`
+ * @template P The integer type, defaults to `varint<W>`
  * @param w The width of the integer type, in the range `0 <= w <= 15`
  * @returns `Number` or `BigInt`
  */
-export const integerType = <W extends Width> (w:W) =>
-  (w <= 7 ? Number : BigInt) as SuperConstructor<varint<W>>
+export const integerType = <W extends Width, P extends VARINT = varint<W>> (
+  w: W
+) =>
+  (w <= 7 ? Number : BigInt) as SuperConstructor<P>
 
 /**
  * Runtime constraint that checks whether the given value `v` is an integer.
  *
  * @param pc The prim constructor for the type `P`
  * @param v The value to check
- * @returns `undefined` if `v` is an integer, otherwise a `string` error message
+ * @returns `undefined` if `v` is an integer, otherwise a `PrimIssue`
  */
-export const isInteger: Constraint =
+export const isInteger: Constraint = constraint('integer', {},
   <P extends PRIM> (pc: PrimConstructor<P>, v: PRIM) =>
   (typeof v == 'bigint') || Number.isInteger(v) ? undefined :
-  `${display(v)} is not assignable to type '${pc.name}'.\n` +
-  `  Not an integer.`
+  primIssue(pc, v, 'not_integer',
+    `${display(v)} is not assignable to type '${pc.name}'.\n` +
+    `  Not an integer.`
+  )
+)
 
   /**
  * Low-level 'fixed variable-width' signed integer type.
@@ -131,12 +144,14 @@ export type varint <W extends Width> =
  * type byte = varint<1>
  * const Byte = Varint(1)
  * let b: byte = Byte(250) // runtime error
- * // TypeError: 250 is not in range of 'varint<1>': -128 .. 127
+ * // PrimError: 250 is not assignable to 'varint<1>'.
+ * //   Not in range -128 .. 127.
  *
  * @template W The width (type), inferred from param `w`
  * @param w The width (value)
  * @returns The prim constructor function
  */
-export const Varint = <W extends Width> (w:W) => Prim<varint<W>> (
-  `varint<${w}>`, integerType(w), [ isInteger, widthConstraint(w) ]
-)
+export const Varint = <W extends Width> (w:W) =>
+  register(integerConstructor(Prim<varint<W>> (
+    `varint<${w}>`, integerType(w), [ isInteger, widthConstraint(w) ]
+  )))
@@ -1,5 +1,5 @@
 import type { PRIM, Constraint, PrimConstructor } from './prim.js'
-import { display } from './prim.js'
+import { constraint, display, primIssue } from './prim.js'
 import { type Lte } from './util.js'
 
 /**
@@ -8,6 +8,48 @@ import { type Lte } from './util.js'
 export type width<W extends Width> =
   { width: Lte<W> }
 
+/**
+ * Constraint limiting an unsigned type to the given Width `W`
+ *
+ * An unsigned integer of width `W` has the same number of bits as a signed
+ * integer of width `W`, but all of them are used for the magnitude. So it
+ * fits in the next wider signed integer, but not in the signed integer of
+ * the same width:
+ *
+ * ```ts
+ * type uint8 = prim<number, uwidth<1>>
+ * type int8 = prim<number, width<1>>
+ * type int16 = prim<number, width<2>>
+ *
+ * let u: uint8 = 200 as uint8
+ * let i: int16 = u // ok
+ * let b: int8 = u // error
+ * // Type 'uint8' is not assignable to type 'int8'.
+ * u = i // error
+ * // Type 'int16' is not assignable to type 'uint8'.
+ * ```
+ *
+ * @template W The width
+ *
+ * @see {@link width} for the signed width constraint
+ * @see {@link uwidthConstraint} for the runtime constraint
+ */
+export type uwidth<W extends Width> =
+  { width: Lte<WiderWidth<W>>, uwidth: Lte<W> }
+
+/**
+ * The next wider width after `W`.
+ *
+ * For the widest width `15`, this returns `16`, which is not a `Width`, but
+ * makes sure that unsigned integers of width `15` are not assignable to
+ * signed integers of any width.
+ *
+ * @template W The width
+ * @returns The next wider width
+ */
+export type WiderWidth<W extends Width> =
+  [ 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16 ][W]
+
 /**
  * The 16 fixed widths in this framework.
  *
@@ -106,10 +148,41 @@ export const widthConstraint: WidthConstraint =
     const wb = BigInt(widthBits(w)), sh = 1n << (wb - 1n)
     const min = 0n - sh, max = sh - 1n
     const range = w <= 7 ? `${min} .. ${max}` : `0 ± 2^(${wb}-1)-1`
-    return <P extends PRIM> (pc: PrimConstructor<P>, v: PRIM) =>
-      (BigInt(v) >= min) && (BigInt(v) <= max) ? undefined :
-      `${display(v)} is not assignable to '${pc.name}'.\n` +
-      `  Not in range ${range}.`
+    return constraint('width', { width: w, bits: widthBits(w), min, max },
+      <P extends PRIM> (pc: PrimConstructor<P>, v: PRIM) =>
+      (typeof v == 'number' || typeof v == 'bigint') &&
+      (v >= min) && (v <= max) ? undefined :
+      primIssue(pc, v, 'out_of_range',
+        `${display(v)} is not assignable to '${pc.name}'.\n` +
+        `  Not in range ${range}.`,
+        { min, max }
+      )
+    )
+  }
+
+/**
+ * Generates a runtime constraint constraining an unsigned type to width `w`
+ *
+ * The widest low width `7` is backed by `number`, so its maximum is capped
+ * at `Number.MAX_SAFE_INTEGER` (`2^53-1`) instead of `2^54-1`. Bigger
+ * integers can not all be represented exactly by a `number`.
+ */
+export const uwidthConstraint: WidthConstraint =
+  <W extends Width> (w: W) => {
+    const wb = BigInt(widthBits(w))
+    const min = 0n
+    const max = w == 7 ? BigInt(Number.MAX_SAFE_INTEGER) : (1n << wb) - 1n
+    const range = w <= 7 ? `${min} .. ${max}` : `0 .. 2^${wb}-1`
+    return constraint('uwidth', { width: w, bits: widthBits(w), min, max },
+      <P extends PRIM> (pc: PrimConstructor<P>, v: PRIM) =>
+      (typeof v == 'number' || typeof v == 'bigint') &&
+      (v >= min) && (v <= max) ? undefined :
+      primIssue(pc, v, 'out_of_range',
+        `${display(v)} is not assignable to '${pc.name}'.\n` +
+        `  Not in range ${range}.`,
+        { min, max }
+      )
+    )
   }
 
 // aliases - low width
@@ -0,0 +1,188 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { PrimError, Prim } from '../src/prim.js'
+import { type int8, type int32, Int8, Int32, Int54 } from '../src/int.js'
+import { Uint8, Uint54 } from '../src/uint.js'
+import { Big64 } from '../src/big.js'
+import { rangeConstraint } from '../src/range.js'
+import { Arithmetic, fit, integerBounds,
+  integerConstructor } from '../src/arithmetic.js'
+
+const Port = Prim<int32>('port', Int32, rangeConstraint(1, 65535))
+
+describe('integerBounds', () => {
+  it('derives the bounds from the width', () => {
+    assert.deepEqual(integerBounds(Int8),
+      { min: -128n, max: 127n, bits: 8, signed: true }
+    )
+    assert.deepEqual(integerBounds(Uint8),
+      { min: 0n, max: 255n, bits: 8, signed: false }
+    )
+  })
+
+  it('narrows the bounds by range constraints', () => {
+    assert.deepEqual(integerBounds(Port),
+      { min: 1n, max: 65535n, bits: 32, signed: true }
+    )
+  })
+
+  it('rejects types without a width', () => {
+    assert.throws(() => integerBounds(Number as never), TypeError)
+  })
+})
+
+describe('fit', () => {
+  it('handles overflow as specified', () => {
+    assert.equal(fit(Int8, 300n, 'saturate'), 127)
+    assert.equal(fit(Int8, -300n, 'saturate'), -128)
+    assert.equal(fit(Int8, 300n, 'wrap'), 44)
+    assert.equal(fit(Uint8, -1n, 'wrap'), 255)
+    assert.throws(() => fit(Int8, 300n), { code: 'overflow' })
+  })
+
+  it('fits into the range of the type', () => {
+    assert.equal(fit(Port, 0n, 'saturate'), 1)
+    assert.equal(fit(Port, 65536n, 'wrap'), 1)
+    assert.equal(fit(Port, 0n, 'wrap'), 65535)
+  })
+
+  it('checks the other constraints of the type', () => {
+    const Even = Prim<int8>('even', Int8, (pc, v) =>
+      Number(v) % 2 == 0 ? undefined : {
+        type: pc.name, value: v, code: 'not_even', params: {},
+        message: `${v} is odd.`
+      }
+    )
+    assert.equal(fit(Even, -300n, 'saturate'), -128)
+    assert.throws(() => fit(Even, 300n, 'saturate'), { code: 'not_even' })
+    assert.throws(() => fit(Even, 5n), { code: 'not_even' })
+  })
+})
+
+describe('Arithmetic', () => {
+  const { add, sub, mul, div, mod, neg, abs } = Arithmetic(Int8)
+
+  it('keeps results that fit', () => {
+    assert.equal(add(Int8(100), Int8(20)), 120)
+    assert.equal(sub(Int8(-100), Int8(20)), -120)
+    assert.equal(mul(Int8(-4), Int8(8)), -32)
+    assert.equal(div(Int8(7), Int8(2)), 3)
+    assert.equal(div(Int8(-7), Int8(2)), -3)
+    assert.equal(mod(Int8(-7), Int8(2)), -1)
+    assert.equal(neg(Int8(127)), -127)
+    assert.equal(abs(Int8(-127)), 127)
+  })
+
+  it('throws on overflow by default', () => {
+    assert.throws(() => add(Int8(100), Int8(100)), {
+      name: 'PrimError',
+      code: 'overflow',
+      params: { min: -128n, max: 127n },
+      message: `200 is not assignable to 'int<1>'.\n` +
+        `  Arithmetic overflow, not in range -128 .. 127.`
+    })
+    assert.throws(() => neg(Int8(-128)), { code: 'overflow' })
+    assert.throws(() => abs(Int8(-128)), { code: 'overflow' })
+  })
+
+  it('wraps or saturates on overflow when asked to', () => {
+    assert.equal(Arithmetic(Int8, 'wrap').add(Int8(100), Int8(100)), -56)
+    assert.equal(Arithmetic(Int8, 'saturate').add(Int8(100), Int8(100)), 127)
+  })
+
+  it('rejects results that are not safe integers', () => {
+    const min = Int54(-(2 ** 53) + 1), one = Int54(1)
+    assert.throws(() => Arithmetic(Int54).sub(min, one), {
+      code: 'overflow', params: { min: -(2n ** 53n) + 1n, max: 2n ** 53n - 1n }
+    })
+    assert.equal(Arithmetic(Int54, 'saturate').sub(min, one), min)
+    assert.equal(Int54.clamp(-Infinity), min)
+  })
+
+  it('works for bigint types', () => {
+    const { add } = Arithmetic(Big64)
+    const max = Big64(2n ** 63n - 1n)
+    assert.equal(add(max, Big64(-1n)), 2n ** 63n - 2n)
+    assert.throws(() => add(max, Big64(1n)), { code: 'overflow' })
+    assert.equal(Arithmetic(Big64, 'wrap').add(max, Big64(1n)), -(2n ** 63n))
+  })
+
+  it('respects the range of the type', () => {
+    const p = Port(65535), one = Port(1)
+    assert.throws(() => Arithmetic(Port).add(p, one), {
+      code: 'overflow', params: { min: 1n, max: 65535n }
+    })
+    assert.equal(Arithmetic(Port, 'saturate').add(p, one), 65535)
+    assert.equal(Arithmetic(Port, 'wrap').add(p, one), 1)
+    assert.equal(Arithmetic(Port, 'saturate').sub(one, one), 1)
+  })
+
+  it('rejects division by zero', () => {
+    for (const op of [ div, mod ]) assert.throws(() => op(Int8(7), Int8(0)),
+      (e: unknown) => e instanceof PrimError && e.code == 'division_by_zero'
+    )
+    assert.throws(() => div(Int8(7), Int8(0)), {
+      message: `7 / 0 is not assignable to 'int<1>'.\n  Division by zero.`
+    })
+    assert.throws(() => Arithmetic(Big64, 'saturate').mod(Big64(7n), Big64(0n)),
+      { code: 'division_by_zero' }
+    )
+  })
+
+  it('rejects types without a width', () => {
+    assert.throws(() => Arithmetic(Number as never), TypeError)
+  })
+})
+
+describe('integerConstructor', () => {
+  it('clamps values to the bounds of the type', () => {
+    assert.equal(Int8.clamp(300), 127)
+    assert.equal(Int8.clamp(-1000.7), -128)
+    assert.equal(Int8.clamp(Infinity), 127)
+    assert.equal(Uint8.clamp(-1), 0)
+    assert.equal(Big64.clamp(2n ** 64n), 2n ** 63n - 1n)
+  })
+
+  it('clamps to bounds that a number represents exactly', () => {
+    assert.equal(Uint54.clamp(1e20), Number.MAX_SAFE_INTEGER)
+    assert.equal(Int54.clamp(-1e20), -Number.MAX_SAFE_INTEGER)
+  })
+
+  it('wraps values into the bounds of the type', () => {
+    assert.equal(Int8.wrap(300), 44)
+    assert.equal(Int8.wrap(128), -128)
+    assert.equal(Uint8.wrap(-1), 255)
+    assert.equal(Big64.wrap(2n ** 63n), -(2n ** 63n))
+  })
+
+  it('rounds non-integers as specified', () => {
+    assert.equal(Int8.wrap(2.5, 'ceil'), 3)
+    assert.equal(Int8.clamp(-2.5, 'floor'), -3)
+    assert.equal(Int8.clamp(2.5, 'round'), 3)
+    assert.equal(Int8.clamp(2.7), 2)
+  })
+
+  it('rejects values that can not be forced into the type', () => {
+    assert.throws(() => Int8.clamp(NaN), PrimError)
+    assert.throws(() => Int8.wrap(Infinity), PrimError)
+  })
+
+  it('honours the range of the type', () => {
+    const Ranged = integerConstructor(
+      Prim<int32>('port', Int32, rangeConstraint(1, 65535))
+    )
+    assert.equal(Ranged.clamp(0), 1)
+    assert.equal(Ranged.clamp(-Infinity), 1)
+    assert.equal(Ranged.clamp(70000), 65535)
+    assert.equal(Ranged.wrap(65536), 1)
+    assert.equal(Ranged.wrap(0), 65535)
+  })
+
+  it('keeps clamp and wrap in subtypes derived with extend', () => {
+    const Ranged = Int32.extend('port', rangeConstraint(1, 65535))
+    assert.equal(Ranged.clamp(0), 1)
+    assert.equal(Ranged.wrap(65536), 1)
+    const Low = Ranged.extend('low', rangeConstraint(1, 1023))
+    assert.equal(Low.clamp(5000), 1023)
+  })
+})
@@ -0,0 +1,89 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { Int8, Int16 } from '../src/int.js'
+import { Varchar } from '../src/varchar.js'
+import { ArrayOf, TupleOf } from '../src/array.js'
+
+describe('ArrayOf', () => {
+  const Tags = ArrayOf(Varchar(8), { max: 2, unique: true })
+
+  it('names the array type after the elements and bounds', () => {
+    assert.equal(Tags.name, 'varchar<8>[0..2, unique]')
+    assert.equal(ArrayOf(Int8).name, 'int<1>[]')
+  })
+
+  it('constructs a new array from the validated elements', () => {
+    const v = [ 'red', 'green' ]
+    assert.deepEqual(Tags(v), v)
+    assert.notEqual(Tags(v), v)
+  })
+
+  it('rejects duplicates', () => {
+    assert.throws(() => Tags([ 'red', 'red' ]), {
+      code: 'not_unique',
+      params: { index: 0 },
+      message: `[1]: "red" is not assignable to 'varchar<8>[0..2, unique]'.` +
+        `\n  Duplicate of element 0.`
+    })
+  })
+
+  it('reports the length issue along with the issues of the elements', () => {
+    const validation = Tags.validate([ 'red', 'x'.repeat(9), 'blue' ])
+    assert.ok(!validation.ok)
+    assert.deepEqual(validation.issues.map(i => [ i.code, i.path ]), [
+      [ 'too_long', undefined ],
+      [ 'too_long', [ 1 ] ],
+    ])
+  })
+
+  it('reports duplicates along with the length issue', () => {
+    const validation = Tags.validate([ 'red', 'red', 'red' ])
+    assert.ok(!validation.ok)
+    assert.deepEqual(validation.issues.map(i => [ i.code, i.path ]), [
+      [ 'too_long', undefined ],
+      [ 'not_unique', [ 1 ] ],
+      [ 'not_unique', [ 2 ] ],
+    ])
+  })
+
+  it('reports issues instead of throwing on any value', () => {
+    const validation = Tags.validate(Symbol('tags'))
+    assert.ok(!validation.ok)
+    assert.equal(validation.issues[0].message,
+      `Symbol(tags) is not assignable to 'varchar<8>[0..2, unique]'.\n` +
+      `  Not an array.`)
+    const elements = Tags.validate([ Symbol('tag'), Object.create(null) ])
+    assert.ok(!elements.ok)
+    assert.deepEqual(elements.issues.map(i => i.code),
+      [ 'super_mismatch', 'super_mismatch' ])
+  })
+})
+
+describe('TupleOf', () => {
+  const Rgb = TupleOf(Int16, Int16, Int16)
+
+  it('validates each element with the constructor at its index', () => {
+    assert.equal(Rgb.name, '[int<2>, int<2>, int<2>]')
+    assert.deepEqual(Rgb([ 255, 128, 0 ]), [ 255, 128, 0 ])
+    assert.throws(() => Rgb([ 255, 128, 65536 ]), {
+      code: 'out_of_range',
+      message: `[2]: 65536 is not assignable to 'int<2>'.\n` +
+        `  Not in range -32768 .. 32767.`
+    })
+  })
+
+  it('reports the length issue along with the issues of the elements', () => {
+    const short = Rgb.validate([ 65536 ])
+    assert.ok(!short.ok)
+    assert.deepEqual(short.issues.map(i => [ i.code, i.path ]), [
+      [ 'too_short', undefined ],
+      [ 'out_of_range', [ 0 ] ],
+    ])
+    const long = Rgb.validate([ 0, 65536, 0, 'extra' ])
+    assert.ok(!long.ok)
+    assert.deepEqual(long.issues.map(i => [ i.code, i.path ]), [
+      [ 'too_long', undefined ],
+      [ 'out_of_range', [ 1 ] ],
+    ])
+  })
+})
@@ -0,0 +1,85 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { Int8, Int24, Int54 } from '../src/int.js'
+import { Uint8, Uint16 } from '../src/uint.js'
+import { Big96 } from '../src/big.js'
+import { Ubig64 } from '../src/ubig.js'
+import { BinaryReader, BinaryWriter, byteLength, decode,
+  encode } from '../src/binary.js'
+
+const bytes = (...b: number[]) => new Uint8Array(b)
+
+describe('encode and decode', () => {
+  it('use the byte length of the width', () => {
+    assert.equal(byteLength(Int8), 1)
+    assert.equal(byteLength(Int24), 3)
+    assert.equal(byteLength(Int54), 7)
+    assert.equal(byteLength(Big96), 12)
+  })
+
+  it('encode signed integers in two\'s complement', () => {
+    assert.deepEqual(encode(Int24, Int24(-2)), bytes(255, 255, 254))
+    assert.deepEqual(encode(Int24, Int24(-2), { endian: 'little' }),
+      bytes(254, 255, 255)
+    )
+    assert.deepEqual(encode(Uint16, Uint16(0xabcd)), bytes(0xab, 0xcd))
+  })
+
+  it('round-trip values of all widths and both byte orders', () => {
+    const values = [
+      [ Int8, [ -128, -1, 0, 1, 127 ] ],
+      [ Uint8, [ 0, 128, 255 ] ],
+      [ Int24, [ -8388608, -2, 8388607 ] ],
+      [ Int54, [ Number.MIN_SAFE_INTEGER, Number.MAX_SAFE_INTEGER ] ],
+      [ Ubig64, [ 0n, 2n ** 64n - 1n ] ],
+      [ Big96, [ -(2n ** 95n), -1n, 2n ** 95n - 1n ] ],
+    ] as const
+    for (const [ pc, vs ] of values) for (const v of vs) {
+      for (const endian of [ 'big', 'little' ] as const) {
+        const encoded = encode(pc as never, v as never, { endian })
+        assert.equal(encoded.length, byteLength(pc as never))
+        assert.equal(decode(pc as never, encoded, { endian }), v)
+      }
+    }
+  })
+
+  it('reject values that are not of the type', () => {
+    assert.throws(() => encode(Int8, 300 as never), { code: 'out_of_range' })
+  })
+
+  it('reject a wrong number of bytes', () => {
+    assert.throws(() => decode(Int24, bytes(1, 2)), {
+      code: 'bad_encoding',
+      params: { bits: 24, bytes: 3 }
+    })
+  })
+})
+
+describe('BinaryWriter and BinaryReader', () => {
+  it('write and read a sequence of integers', () => {
+    const written = BinaryWriter()
+      .write(Int8, Int8(1))
+      .write(Int24, Int24(-2))
+      .write(Big96, Big96(3n))
+      .bytes()
+    assert.equal(written.length, 16)
+    const reader = BinaryReader(written)
+    assert.equal(reader.read(Int8), 1)
+    assert.equal(reader.read(Int24), -2)
+    assert.equal(reader.read(Big96), 3n)
+    assert.ok(reader.done())
+  })
+
+  it('grow the buffer as needed', () => {
+    const writer = BinaryWriter({ endian: 'little' })
+    for (let i = 0; i < 100; i++) writer.write(Big96, Big96(BigInt(i)))
+    const reader = BinaryReader(writer.bytes(), { endian: 'little' })
+    for (let i = 0; i < 100; i++) assert.equal(reader.read(Big96), BigInt(i))
+    assert.ok(reader.done())
+  })
+
+  it('reject reading past the end', () => {
+    const reader = BinaryReader(bytes(1))
+    assert.throws(() => reader.read(Int24), { code: 'bad_encoding' })
+  })
+})
@@ -0,0 +1,70 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { type varchar, Varchar } from '../src/varchar.js'
+import { type char, Char } from '../src/char.js'
+
+describe('Char', () => {
+  const Currency = Char(3)
+
+  it('accepts strings of exactly the length', () => {
+    assert.equal(Currency('EUR'), 'EUR')
+    assert.ok(!Currency.is('EU'))
+    assert.ok(!Currency.is('EURO'))
+  })
+
+  it('rejects shorter strings', () => {
+    assert.throws(() => Currency('EU'), {
+      code: 'too_short',
+      params: { min: 3, unit: 'utf16' },
+      message: `"EU" is not assignable to 'char<3>'.\n` +
+        `  Length is less than 3.`
+    })
+  })
+
+  it('rejects longer strings with the check of varchar', () => {
+    assert.throws(() => Currency('EURO'), {
+      code: 'too_long',
+      message: `"EURO" is not assignable to 'char<3>'.\n` +
+        `  Length exceeds 3.`
+    })
+  })
+
+  it('extends varchar and is interned', () => {
+    assert.equal(Currency.super, Varchar(3))
+    assert.equal(Char(3), Currency)
+  })
+
+  it('is assignable to varchar, but not the other way round', () => {
+    let code: char<3> = Currency('EUR')
+    let str: varchar<3> = code
+    // @ts-expect-error varchar<3> lacks the fixed length
+    code = str
+    // @ts-expect-error the lengths differ
+    let other: char<4> = code
+    // @ts-expect-error plain strings are not chars
+    code = 'USD'
+    assert.deepEqual([ str, other, code ], [ 'EUR', 'EUR', 'USD' ])
+  })
+
+  it('measures the length in the unit', () => {
+    const Emoji = Char(2, { unit: 'codepoint' })
+    assert.equal(Emoji.name, 'char<2, codepoint>')
+    assert.equal(Emoji('👍👍'), '👍👍')
+    assert.ok(!Emoji.is('👍'))
+  })
+
+  it('pads values in padding mode', () => {
+    const Code = Char(4, { pad: true })
+    assert.equal(Code.name, 'char<4, pad>')
+    assert.equal(Code('AB'), 'AB  ')
+    assert.equal(Code('AB    '), 'AB  ')
+    assert.throws(() => Code('ABCDE'), { code: 'too_long' })
+  })
+
+  it('ignores trailing spaces on comparison only in padding mode', () => {
+    const Code = Char(4, { pad: true })
+    assert.ok(Code.equals('AB', Code('AB')))
+    assert.ok(!Currency.equals('AB', 'AB '))
+    assert.ok(Currency.equals('EUR', 'EUR'))
+  })
+})
@@ -0,0 +1,64 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { Prim } from '../src/prim.js'
+import { type int32, Int8, Int32, Int54 } from '../src/int.js'
+import { Uint8 } from '../src/uint.js'
+import { Big64, Big128 } from '../src/big.js'
+import { Varint } from '../src/varint.js'
+import { rangeConstraint } from '../src/range.js'
+import { Nominal } from '../src/nominal.js'
+import { narrow, widen } from '../src/convert.js'
+
+describe('widen', () => {
+  it('converts between number and bigint', () => {
+    assert.equal(widen(Big64, Int32(1000)), 1000n)
+    assert.equal(widen(Int32, Int8(-100)), -100)
+    assert.equal(widen(Int32, Uint8(200)), 200)
+  })
+
+  it('checks constraints of the target type other than the width', () => {
+    const Port = Prim<int32>('port', Int32, rangeConstraint(1, 65535))
+    assert.equal(widen(Port, Int8(80)), 80)
+    assert.throws(() => widen(Port, Int8(0)), { code: 'out_of_range' })
+  })
+
+  it('does not compile for narrowing conversions', () => {
+    // only type-checked, narrowing needs `narrow`
+    const narrowing = () => [
+      // @ts-expect-error int32 is wider than int8
+      widen(Int8, Int32(1)),
+      // @ts-expect-error big128 is wider than int32
+      widen(Int32, Big128(1000n)),
+      // @ts-expect-error uint8 does not fit int8
+      widen(Int8, Uint8(1)),
+    ]
+    assert.equal(typeof narrowing, 'function')
+  })
+
+  it('keeps the checks of nominal target types', () => {
+    const Positive = Nominal('Positive', Int32, rangeConstraint(1, Infinity))
+    assert.throws(() => widen(Positive, Int8(-1)), { code: 'out_of_range' })
+  })
+})
+
+describe('narrow', () => {
+  it('converts integers that fit', () => {
+    assert.equal(narrow(Int54, Varint(8)(1000n)), 1000)
+    assert.equal(narrow(Big64, 1000), 1000n)
+    assert.equal(narrow(Int8, Big128(-128n)), -128)
+  })
+
+  it('checks the range on the exact value', () => {
+    assert.throws(() => narrow(Int8, 1000), {
+      code: 'out_of_range',
+      message: `1000 is not assignable to 'int<1>'.\n` +
+        `  Not in range -128 .. 127.`
+    })
+    assert.throws(() => narrow(Int54, 2n ** 60n), { code: 'out_of_range' })
+    assert.throws(() => narrow(Uint8, -1), { code: 'out_of_range' })
+  })
+
+  it('rejects non-integers', () => {
+    assert.throws(() => narrow(Big64, 1.5), { code: 'not_integer' })
+  })
+})
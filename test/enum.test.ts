@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { Int16 } from '../src/int.js'
+import { Enum } from '../src/enum.js'
+
+describe('Enum', () => {
+  const Status = Enum('status', [ 'draft', 'published' ] as const)
+
+  it('accepts only the values', () => {
+    assert.equal(Status('draft'), 'draft')
+    assert.deepEqual(Status.values, [ 'draft', 'published' ])
+    assert.equal(Status.super, String)
+    assert.throws(() => Status('archived'), {
+      code: 'not_in_enum',
+      params: { values: [ 'draft', 'published' ] },
+      message: `"archived" is not assignable to 'status'.\n` +
+        `  Not one of "draft", "published".`
+    })
+  })
+
+  it('is based on the constructor it is given', () => {
+    const HttpStatus = Enum('http_status', [ 200, 404 ] as const, Int16)
+    assert.equal(HttpStatus.super, Int16)
+    assert.equal(HttpStatus(404), 404)
+    assert.ok(!HttpStatus.is(500))
+  })
+
+  it('checks the values against the constructor', () => {
+    assert.throws(() => Enum('big', [ 70000 ] as const, Int16),
+      { code: 'out_of_range' })
+  })
+
+  it('checks the values against the type of the first value', () => {
+    assert.throws(() => Enum('mixed', [ 'a', 1 ] as const), {
+      name: 'PrimError',
+      code: 'super_mismatch',
+      message: `1 is not assignable to type 'mixed'.\n` +
+        `  Supertypes do not match: number, string.`
+    })
+  })
+
+  it('needs at least one value', () => {
+    assert.throws(() => Enum('none', [] as const), {
+      name: 'TypeError',
+      message: `Enum 'none' needs at least one value.`
+    })
+  })
+})
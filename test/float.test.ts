@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { Int32 } from '../src/int.js'
+import { type float32, type float64, type ufloat64, Float, Float32, Float64,
+  Ufloat64, UnitInterval } from '../src/float.js'
+
+describe('Float', () => {
+  it('accepts only finite numbers', () => {
+    assert.equal(Float64(0.1), 0.1)
+    assert.throws(() => Float64(NaN), {
+      code: 'not_finite',
+      message: `NaN is not assignable to 'float<64>'.\n` +
+        `  Not a finite number.`
+    })
+    assert.throws(() => Float64(Infinity), { code: 'not_finite' })
+  })
+
+  it('accepts only representable numbers for 32 bits', () => {
+    assert.equal(Float32(0.5), 0.5)
+    assert.throws(() => Float32(0.1), {
+      code: 'not_representable',
+      params: { bits: 32 },
+      message: `0.1 is not assignable to 'float<32>'.\n` +
+        `  Not representable as a 32-bit float.`
+    })
+  })
+
+  it('rounds to the nearest 32-bit float in rounding mode', () => {
+    const Rounded = Float(32, { round: true })
+    assert.equal(Rounded.name, 'float<32, round>')
+    assert.equal(Rounded(0.1), Math.fround(0.1))
+    assert.ok(!Rounded.is(0.1))
+  })
+
+  it('widens to 64 bits, but not the other way round', () => {
+    let single: float32 = Float32(0.5)
+    let double: float64 = single
+    let i: float64 = Int32(1)
+    // @ts-expect-error float64 may not be representable in 32 bits
+    single = double
+    // @ts-expect-error int32 may not be representable in 32 bits
+    single = Int32(1)
+    // @ts-expect-error a plain number may not be finite
+    double = 0.5
+    // @ts-expect-error float64 may be negative
+    let u: ufloat64 = double
+    assert.deepEqual([ single, i, u ], [ 1, 1, 0.5 ])
+  })
+
+  it('is interned, with rounding mode only for 32 bits', () => {
+    assert.equal(Float(32), Float32)
+    assert.equal(Float(), Float64)
+    assert.equal(Float(64, { round: true }), Float64)
+  })
+
+  it('constrains the non-negative and unit interval variants', () => {
+    assert.equal(Ufloat64(0), 0)
+    assert.throws(() => Ufloat64(-1), { code: 'out_of_range' })
+    assert.equal(UnitInterval(0.25), 0.25)
+    assert.throws(() => UnitInterval(1.5), {
+      code: 'out_of_range',
+      message: `1.5 is not assignable to 'unitInterval'.\n` +
+        `  Not in range 0 .. 1.`
+    })
+  })
+})
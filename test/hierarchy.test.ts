@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { constraint } from '../src/prim.js'
+import { Int8, Int16, Int32, Int40 } from '../src/int.js'
+import { Uint8, Uint32 } from '../src/uint.js'
+import { Big64, Big96 } from '../src/big.js'
+import { Ubig64 } from '../src/ubig.js'
+import { Float32, Float64 } from '../src/float.js'
+import { Varchar } from '../src/varchar.js'
+import { Memo } from '../src/memo.js'
+import { Enum } from '../src/enum.js'
+import { rangeConstraint } from '../src/range.js'
+import { ancestors, commonSupertype, isSubtypeOf } from '../src/hierarchy.js'
+
+describe('ancestors', () => {
+  it('returns the super chain, nearest first', () => {
+    assert.deepEqual(ancestors(Int32.extend('port')), [ Int32, Number ])
+    assert.deepEqual(ancestors(Number), [])
+  })
+})
+
+describe('isSubtypeOf', () => {
+  it('follows the width tags', () => {
+    assert.ok(isSubtypeOf(Int8, Int32))
+    assert.ok(!isSubtypeOf(Int32, Int8))
+    assert.ok(isSubtypeOf(Uint8, Int16))
+    assert.ok(!isSubtypeOf(Uint8, Int8))
+  })
+
+  it('follows the length tags', () => {
+    assert.ok(isSubtypeOf(Varchar(64), Memo))
+    assert.ok(!isSubtypeOf(Memo, Varchar(64)))
+    assert.ok(!isSubtypeOf(Varchar(64), Int32))
+  })
+
+  it('compares ranges, enums and floats', () => {
+    const Port = Int32.extend('port', rangeConstraint(1, 65535))
+    const Http = Int32.extend('http', rangeConstraint(80, 443))
+    assert.ok(isSubtypeOf(Http, Port))
+    assert.ok(!isSubtypeOf(Port, Http))
+    const Small = Enum('small', [ 'a' ] as const)
+    const Large = Enum('large', [ 'a', 'b' ] as const)
+    assert.ok(isSubtypeOf(Small, Large))
+    assert.ok(!isSubtypeOf(Large, Small))
+    assert.ok(isSubtypeOf(Float32, Float64))
+    assert.ok(isSubtypeOf(Int32, Float64))
+    assert.ok(!isSubtypeOf(Int32, Float32))
+  })
+
+  it('compares custom constraints by their metadata', () => {
+    const even = (step: number) => constraint('even', { step }, () => undefined)
+    const Even = Int32.extend('even', even(2))
+    assert.ok(isSubtypeOf(Int32.extend('even2', even(2)), Even))
+    assert.ok(!isSubtypeOf(Int32.extend('even4', even(4)), Even))
+    assert.ok(!isSubtypeOf(Int32.extend('odd', () => undefined), Even))
+  })
+})
+
+describe('commonSupertype', () => {
+  it('returns the narrowest common supertype', () => {
+    assert.equal(commonSupertype(Varchar(64), Memo), Memo)
+    assert.equal(commonSupertype(Int8, Int32), Int32)
+    assert.equal(commonSupertype(Float32, Int8), Float64)
+  })
+
+  it('considers the built-in families, like the compiler', () => {
+    assert.equal(commonSupertype(Int8, Uint8), Int16)
+    assert.equal(commonSupertype(Int32, Uint32), Int40)
+    assert.equal(commonSupertype(Big64, Ubig64), Big96)
+    const V16 = Varchar(16)
+    assert.equal(commonSupertype(Varchar(8), V16), V16)
+  })
+
+  it('returns undefined for different primitive types', () => {
+    assert.equal(commonSupertype(Int8, Memo), undefined)
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { Varint } from '../src/varint.js'
+import { Uvarint } from '../src/uvarint.js'
+import { decodeLeb128, encodeLeb128 } from '../src/leb128.js'
+
+const bytes = (...b: number[]) => new Uint8Array(b)
+const Int32 = Varint(4), Uint32 = Uvarint(4)
+const Int64 = Varint(8), Uint64 = Uvarint(8)
+
+describe('encodeLeb128', () => {
+  it('zigzag encodes signed types', () => {
+    assert.deepEqual(encodeLeb128(Int32, Int32(0)), bytes(0))
+    assert.deepEqual(encodeLeb128(Int32, Int32(-1)), bytes(1))
+    assert.deepEqual(encodeLeb128(Int32, Int32(1)), bytes(2))
+    assert.deepEqual(encodeLeb128(Int32, Int32(-64)), bytes(127))
+    assert.deepEqual(encodeLeb128(Int32, Int32(64)), bytes(128, 1))
+  })
+
+  it('encodes unsigned types as plain LEB128', () => {
+    assert.deepEqual(encodeLeb128(Uint32, Uint32(300)), bytes(172, 2))
+    assert.deepEqual(encodeLeb128(Uint32, Uint32(2 ** 32 - 1)),
+      bytes(255, 255, 255, 255, 15)
+    )
+  })
+
+  it('rejects values that are not of the type', () => {
+    assert.throws(() => encodeLeb128(Uint32, -1 as never),
+      { code: 'out_of_range' }
+    )
+  })
+})
+
+describe('decodeLeb128', () => {
+  it('round-trips values', () => {
+    const values = [
+      [ Int32, [ -(2 ** 31), -1, 0, 1, 2 ** 31 - 1 ] ],
+      [ Uint32, [ 0, 127, 128, 2 ** 32 - 1 ] ],
+      [ Int64, [ -(2n ** 63n), -1n, 0n, 2n ** 63n - 1n ] ],
+      [ Uint64, [ 0n, 2n ** 64n - 1n ] ],
+    ] as const
+    for (const [ pc, vs ] of values) for (const v of vs) {
+      const encoded = encodeLeb128(pc as never, v as never)
+      assert.deepEqual(decodeLeb128(pc as never, encoded),
+        { value: v, length: encoded.length }
+      )
+    }
+  })
+
+  it('decodes at an offset', () => {
+    assert.deepEqual(decodeLeb128(Uint32, bytes(0, 172, 2), 1),
+      { value: 300, length: 2 }
+    )
+  })
+
+  it('rejects truncated encodings', () => {
+    assert.throws(() => decodeLeb128(Uint32, bytes(172)),
+      { code: 'bad_encoding' }
+    )
+  })
+
+  it('rejects over-long encodings', () => {
+    assert.throws(() => decodeLeb128(Uint32, bytes(172, 130, 0)), {
+      code: 'bad_encoding',
+      message: `Encoded 'uvarint<4>' is over-long.\n  Not minimally encoded.`
+    })
+    assert.throws(() => decodeLeb128(Uint32, bytes(128, 128, 128, 128, 128, 1)),
+      { code: 'bad_encoding' }
+    )
+  })
+
+  it('rejects values that overflow the width', () => {
+    assert.throws(() => decodeLeb128(Uint32, bytes(255, 255, 255, 255, 16)),
+      { code: 'bad_encoding', params: { bits: 32, bytes: 5 } }
+    )
+  })
+})
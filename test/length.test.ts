@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { constraintMeta } from '../src/prim.js'
+import { Varchar } from '../src/varchar.js'
+import { Memo } from '../src/memo.js'
+import { lengthIn } from '../src/length.js'
+import { measuredIn, unitName } from '../src/unit.js'
+
+const thumbs = '👍🏽!'
+
+describe('lengthIn', () => {
+  it('measures in UTF-16 code units by default', () => {
+    assert.equal(lengthIn(thumbs), 5)
+  })
+
+  it('measures in other units', () => {
+    assert.equal(lengthIn(thumbs, 'codepoint'), 3)
+    assert.equal(lengthIn(thumbs, 'grapheme'), 2)
+    assert.equal(lengthIn(thumbs, 'utf8'), 9)
+    assert.equal(lengthIn('é', 'utf8'), 2)
+    assert.equal(lengthIn('€', 'utf8'), 3)
+  })
+})
+
+describe('length units', () => {
+  it('are used by Varchar', () => {
+    const V = Varchar(4, 'codepoint')
+    assert.equal(V.name, 'varchar<4, codepoint>')
+    assert.ok(V.is('👍👍👍👍'))
+    assert.ok(!Varchar(4).is('👍👍👍'))
+    assert.throws(() => V('👍🏽👍🏽!'), {
+      code: 'too_long',
+      params: { max: 4, unit: 'codepoint' },
+      message: `"👍🏽👍🏽!" is not assignable to 'varchar<4, codepoint>'.\n` +
+        `  Length exceeds 4 code points.`
+    })
+  })
+
+  it('can be applied to existing constructors', () => {
+    const Utf8Memo = measuredIn(Memo, 'utf8')
+    assert.equal(Utf8Memo.name, 'memo<utf8>')
+    assert.equal(constraintMeta(Utf8Memo, 'length')?.params.unit, 'utf8')
+    assert.ok(Memo.is('👍'.repeat(1025)))
+    assert.ok(Utf8Memo.is('👍'.repeat(1024)))
+    assert.throws(() => Utf8Memo('👍'.repeat(1025)), { code: 'too_long' })
+  })
+
+  it('are part of the name', () => {
+    assert.equal(unitName('memo', 'utf16'), 'memo')
+    assert.equal(unitName('memo', 'utf8'), 'memo<utf8>')
+    assert.equal(unitName('varchar<64>', 'grapheme'), 'varchar<64, grapheme>')
+  })
+})
@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { constraintMeta } from '../src/prim.js'
+import { type int32, Int32 } from '../src/int.js'
+import { rangeConstraint } from '../src/range.js'
+import { Nominal } from '../src/nominal.js'
+
+describe('Nominal', () => {
+  const UserId = Nominal('UserId', Int32)
+  type user_id = ReturnType<typeof UserId>
+
+  it('is named after the brand and based on the constructor', () => {
+    assert.equal(UserId.name, 'UserId')
+    assert.equal(UserId.brand, 'UserId')
+    assert.equal(UserId.super, Int32)
+    assert.equal(UserId(1), 1)
+  })
+
+  it('keeps the checks of the constructor it is based on', () => {
+    assert.throws(() => UserId(2 ** 40), {
+      code: 'out_of_range',
+      message: `1099511627776 is not assignable to 'UserId'.\n` +
+        `  Not in range -2147483648 .. 2147483647.`
+    })
+  })
+
+  it('records the brand in the constraint metadata', () => {
+    assert.deepEqual(constraintMeta(UserId, 'nominal'),
+      { kind: 'nominal', params: { brand: 'UserId' } })
+  })
+
+  it('makes types with different brands mutually unassignable', () => {
+    const OrderId = Nominal('OrderId', Int32)
+    const AdminId = Nominal('AdminId', UserId)
+    let user: user_id = UserId(1)
+    let order: ReturnType<typeof OrderId> = OrderId(2)
+    let admin: ReturnType<typeof AdminId> = AdminId(3)
+    let i: int32 = user
+    // @ts-expect-error the brands differ
+    user = order
+    // @ts-expect-error the brands differ
+    order = user
+    // @ts-expect-error int32 lacks the brand
+    user = i
+    user = admin
+    // @ts-expect-error user_id lacks the AdminId brand
+    admin = user
+    assert.equal(admin, user)
+  })
+
+  it('adds the additional constraints', () => {
+    const Positive = Nominal('Positive', Int32, rangeConstraint(1, Infinity))
+    assert.equal(Positive(5), 5)
+    assert.throws(() => Positive(0), { code: 'out_of_range' })
+  })
+})
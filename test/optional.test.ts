@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { Varchar } from '../src/varchar.js'
+import { Int8 } from '../src/int.js'
+import { Optional, Nullable, isOptional } from '../src/optional.js'
+
+describe('Optional', () => {
+  const Nickname = Optional(Varchar(64))
+
+  it('accepts undefined and delegates everything else', () => {
+    assert.equal(Nickname.name, 'varchar<64> | undefined')
+    assert.equal(Nickname(undefined), undefined)
+    assert.equal(Nickname('Joe'), 'Joe')
+    assert.ok(!Nickname.is(null))
+    assert.throws(() => Nickname(null), { code: 'super_mismatch' })
+  })
+
+  it('validates with the wrapped constructor', () => {
+    assert.deepEqual(Nickname.validate(undefined),
+      { ok: true, value: undefined })
+    const validation = Nickname.validate('x'.repeat(65))
+    assert.ok(!validation.ok && validation.issues[0].code == 'too_long')
+  })
+})
+
+describe('Nullable', () => {
+  const Age = Nullable(Int8)
+
+  it('accepts null and delegates everything else', () => {
+    assert.equal(Age.name, 'int<1> | null')
+    assert.equal(Age(null), null)
+    assert.equal(Age(42), 42)
+    assert.ok(!Age.is(undefined))
+    assert.throws(() => Age.as(128), { code: 'out_of_range' })
+  })
+
+  it('carries its metadata', () => {
+    assert.equal(Age.of, Int8)
+    assert.equal(Age.absent, null)
+    assert.ok(isOptional(Age))
+    assert.ok(!isOptional(Int8))
+  })
+})
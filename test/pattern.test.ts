@@ -0,0 +1,64 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { Prim, constraintMeta } from '../src/prim.js'
+import { Varchar } from '../src/varchar.js'
+import { patternConstraint } from '../src/pattern.js'
+import { Email, HexString, IsoDate, IsoDateTime, Slug, Url,
+  Uuid } from '../src/formats.js'
+
+describe('patternConstraint', () => {
+  const Zipcode = Prim('zipcode', Varchar(5),
+    patternConstraint(/^[0-9]{5}$/, 'zipcode')
+  )
+
+  it('accepts matching values', () => {
+    assert.equal(Zipcode('90210'), '90210')
+  })
+
+  it('rejects values that do not match', () => {
+    assert.throws(() => Zipcode('ABCDE'), {
+      code: 'pattern_mismatch',
+      params: { pattern: '^[0-9]{5}$', flags: '', name: 'zipcode' },
+      message: `"ABCDE" is not assignable to 'zipcode'.\n` +
+        `  Not a valid zipcode.`
+    })
+  })
+
+  it('mentions the regular expression when it has no name', () => {
+    const Digits = Prim('digits', String, patternConstraint(/^\d+$/))
+    assert.throws(() => Digits('x'), {
+      message: `"x" is not assignable to 'digits'.\n` +
+        `  Does not match /^\\d+$/.`
+    })
+  })
+
+  it('ignores the global and sticky flags', () => {
+    const Digits = Prim('digits', String, patternConstraint(/^\d+$/gy))
+    assert.ok(Digits.is('123'))
+    assert.ok(Digits.is('123'))
+    assert.equal(constraintMeta(Digits, 'pattern')?.params.flags, '')
+  })
+})
+
+describe('formats', () => {
+  it('accept valid values', () => {
+    assert.equal(Email(' Foo@Bar.com '), 'foo@bar.com')
+    assert.ok(Uuid.is('123e4567-e89b-12d3-a456-426614174000'))
+    assert.ok(Url.is('https://example.com/path?q=1'))
+    assert.ok(IsoDate.is('2025-07-17'))
+    assert.ok(IsoDateTime.is('2025-07-17T12:34:56.789Z'))
+    assert.ok(IsoDateTime.is('2025-07-17T12:34+02:00'))
+    assert.ok(HexString.is('DEADbeef'))
+    assert.ok(Slug.is('hello-world'))
+  })
+
+  it('reject invalid values', () => {
+    assert.ok(!Email.is('foo@bar'))
+    assert.ok(!Uuid.is('123e4567-e89b-12d3-a456'))
+    assert.ok(!Url.is('example.com'))
+    assert.ok(!IsoDate.is('2025-13-01'))
+    assert.ok(!IsoDateTime.is('2025-07-17T12:34:56'))
+    assert.ok(!HexString.is(''))
+    assert.ok(!Slug.is('Hello--World'))
+  })
+})
@@ -0,0 +1,165 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { PrimError, displayPath, constraint, constraintMeta, primIssue,
+  display, displayUnknown, sameMeta, Prim } from '../src/prim.js'
+import { type int32, Int8, Int32 } from '../src/int.js'
+import { Varchar } from '../src/varchar.js'
+import { rangeConstraint } from '../src/range.js'
+import { trim } from '../src/transform.js'
+
+describe('PrimError', () => {
+  it('carries the structured issue of the violated constraint', () => {
+    assert.throws(() => Int8(300), (e: unknown) => {
+      assert.ok(e instanceof PrimError)
+      assert.ok(e instanceof TypeError)
+      assert.equal(e.type, 'int<1>')
+      assert.equal(e.value, 300)
+      assert.equal(e.code, 'out_of_range')
+      assert.deepEqual(e.params, { min: -128n, max: 127n })
+      assert.equal(e.message,
+        `300 is not assignable to 'int<1>'.\n  Not in range -128 .. 127.`
+      )
+      assert.deepEqual(e.path, [])
+      return true
+    })
+  })
+
+  it('reports the first violated constraint', () => {
+    assert.throws(() => Int8(1.5), { code: 'not_integer' })
+    assert.throws(() => Int8('1' as never), { code: 'super_mismatch' })
+    assert.throws(() => Varchar(4)('Hello'), { code: 'too_long' })
+  })
+
+  it('prefixes the message with the path of the issue', () => {
+    const e = new PrimError({
+      type: 'int<1>', value: 300, code: 'out_of_range', params: {},
+      message: 'Out of range.', path: [ 'tags', 2 ]
+    })
+    assert.equal(e.message, 'tags[2]: Out of range.')
+    assert.equal(displayPath([ 'tags', 2, 'name' ]), 'tags[2].name')
+  })
+})
+
+describe('validate', () => {
+  it('returns the value when it satisfies all constraints', () => {
+    assert.deepEqual(Int8.validate(100), { ok: true, value: 100 })
+  })
+
+  it('collects the issues of all violated constraints', () => {
+    const result = Int8.validate(300.5)
+    assert.ok(!result.ok)
+    assert.deepEqual(result.issues.map(issue => issue.code),
+      [ 'not_integer', 'out_of_range' ]
+    )
+  })
+
+  it('stops at a mismatch of the primitive type', () => {
+    const result = Int8.validate('300' as never)
+    assert.ok(!result.ok)
+    assert.deepEqual(result.issues.map(issue => issue.code),
+      [ 'super_mismatch' ]
+    )
+  })
+
+  it('does not throw', () => {
+    assert.doesNotThrow(() => Varchar(4).validate(42 as never))
+  })
+})
+
+describe('constraint metadata', () => {
+  it('describes the built-in constraints', () => {
+    assert.deepEqual(Int32.constraints.map(c => c.meta), [
+      { kind: 'super', params: {} },
+      { kind: 'integer', params: {} },
+      { kind: 'width', params: {
+        width: 4, bits: 32, min: -2147483648n, max: 2147483647n
+      } }
+    ])
+  })
+
+  it('looks up the metadata of a constraint by kind', () => {
+    assert.deepEqual(constraintMeta(Varchar(64), 'chars'),
+      { kind: 'chars', params: {
+        chars: 64, length: 1, max: 64, unit: 'utf16'
+      } }
+    )
+    assert.deepEqual(constraintMeta(Number, 'super'),
+      { kind: 'super', params: {} }
+    )
+    assert.equal(constraintMeta(Int8, 'chars'), undefined)
+  })
+
+  it('attaches metadata to user-defined constraints', () => {
+    const isEven = constraint('even', {}, (pc, v) =>
+      (typeof v == 'number') && (v % 2 == 0) ? undefined :
+      primIssue(pc, v, 'not_even', `${display(v)} is not even.`)
+    )
+    const Even = Prim('even', Number, isEven)
+    assert.deepEqual(isEven.meta, { kind: 'even', params: {} })
+    assert.deepEqual(constraintMeta(Even, 'even'), isEven.meta)
+    assert.throws(() => Even(3), { code: 'not_even' })
+  })
+
+  it('compares metadata by kind and parameters', () => {
+    const range = (min: number, max: number) => rangeConstraint(min, max).meta!
+    assert.ok(sameMeta(range(1, 9), range(1, 9)))
+    assert.ok(!sameMeta(range(1, 9), range(1, 8)))
+    assert.ok(!sameMeta(range(1, 9), { kind: 'other', params: {} }))
+  })
+})
+
+describe('displayUnknown', () => {
+  it('displays primitives like display', () => {
+    assert.equal(displayUnknown('Hello'), '"Hello"')
+    assert.equal(displayUnknown(42n), '42')
+    assert.equal(displayUnknown(undefined), 'undefined')
+    assert.equal(displayUnknown(null), 'null')
+  })
+
+  it('displays other values by their type', () => {
+    assert.equal(displayUnknown(Symbol('id')), 'Symbol(id)')
+    assert.equal(displayUnknown([ 1, 2 ]), '[object Array]')
+    assert.equal(displayUnknown(Object.create(null)), '[object Object]')
+  })
+})
+
+describe('extend', () => {
+  const Port = Int32.extend('port', rangeConstraint(1, 65535))
+
+  it('derives a subtype with the constraints of the super constructor', () => {
+    assert.equal(Port.name, 'port')
+    assert.equal(Port.super, Int32)
+    assert.deepEqual(Port.constraints,
+      [ ...Int32.constraints, Port.constraints.at(-1) ])
+    assert.equal(Port(8080), 8080)
+    assert.throws(() => Port(0), { code: 'out_of_range' })
+    assert.throws(() => Port(1.5), { code: 'not_integer' })
+  })
+
+  it('accepts a single constraint, a list or none', () => {
+    const Any = Int32.extend('any')
+    assert.equal(Any.constraints.length, Int32.constraints.length)
+    const Even = Int32.extend('even', [
+      constraint('even', {}, (pc, v) => (v as number) % 2 ? primIssue(pc, v,
+        'not_even', `${display(v)} is not even.`) : undefined)
+    ])
+    assert.throws(() => Even(3), { code: 'not_even' })
+  })
+
+  it('derives types that the super type is not assignable to', () => {
+    let port: ReturnType<typeof Port> = Port(80)
+    let i: int32 = port
+    // @ts-expect-error int32 lacks the constraints of the subtype
+    port = i
+    // @ts-expect-error the subtype must extend int32
+    const Text = Int32.extend<string>('text')
+    assert.equal(Text.super, Int32)
+  })
+
+  it('keeps the transforms and adds new ones', () => {
+    const Name = Varchar(8).extend('name', [], trim)
+    assert.equal(Name('  Joe  '), 'Joe')
+    const Short = Name.extend('short')
+    assert.deepEqual(Short.transforms, Name.transforms)
+  })
+})
@@ -0,0 +1,39 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import type { prim } from '../src/prim.js'
+import { Prim, constraintMeta } from '../src/prim.js'
+import { type int32, Int32 } from '../src/int.js'
+import { type big64, Big64 } from '../src/big.js'
+import { type range, rangeConstraint } from '../src/range.js'
+
+type port = prim<int32, range<1, 65535>>
+const Port = Prim<port>('port', Int32, rangeConstraint(1, 65535))
+
+describe('rangeConstraint', () => {
+  it('accepts values within the bounds, inclusive', () => {
+    assert.equal(Port(1), 1)
+    assert.equal(Port(65535), 65535)
+  })
+
+  it('rejects values outside the bounds', () => {
+    assert.throws(() => Port(0), {
+      code: 'out_of_range',
+      params: { min: 1, max: 65535 },
+      message: `0 is not assignable to 'port'.\n  Not in range 1 .. 65535.`
+    })
+    assert.throws(() => Port(65536), { code: 'out_of_range' })
+  })
+
+  it('works for bigint prims', () => {
+    const Positive =
+      Prim<big64>('positive', Big64, rangeConstraint(1n, 2n ** 63n))
+    assert.equal(Positive(1n), 1n)
+    assert.throws(() => Positive(0n), { code: 'out_of_range' })
+  })
+
+  it('describes its bounds', () => {
+    assert.deepEqual(constraintMeta(Port, 'range'),
+      { kind: 'range', params: { min: 1, max: 65535 } }
+    )
+  })
+})
@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { Int8 } from '../src/int.js'
+import { Big64 } from '../src/big.js'
+import { Varchar } from '../src/varchar.js'
+import { Optional } from '../src/optional.js'
+import { Record } from '../src/record.js'
+
+describe('Record', () => {
+  const User = Record({ id: Big64, name: Varchar(8), age: Optional(Int8) },
+    { name: 'user' })
+
+  it('constructs a new object from the validated fields', () => {
+    const v = { id: 1n, name: 'Joe' }
+    const user = User(v)
+    assert.deepEqual(user, { id: 1n, name: 'Joe' })
+    assert.notEqual(user, v)
+    assert.ok(!('age' in user))
+  })
+
+  it('reports all issues with their paths', () => {
+    const validation = User.validate({ id: 1, name: 'Joe'.repeat(3), x: 1 })
+    assert.ok(!validation.ok)
+    assert.deepEqual(validation.issues.map(i => [ i.code, i.path ]), [
+      [ 'super_mismatch', [ 'id' ] ],
+      [ 'too_long', [ 'name' ] ],
+      [ 'unknown_key', [ 'x' ] ],
+    ])
+  })
+
+  it('strips unknown keys when asked to', () => {
+    const Loose = Record({ id: Big64 }, { unknownKeys: 'strip' })
+    assert.deepEqual(Loose({ id: 1n, extra: true }), { id: 1n })
+  })
+
+  it('prefixes the paths of nested records', () => {
+    const Team = Record({ lead: User })
+    assert.throws(() => Team({ lead: { id: 1n, name: 'x'.repeat(9) } }), {
+      code: 'too_long',
+      message: `lead.name: "xxxxxxxxx" is not assignable to 'varchar<8>'.\n` +
+        `  Length exceeds 8.`
+    })
+  })
+
+  it('reports issues instead of throwing on any value', () => {
+    const s = Symbol('id')
+    const validation = User.validate(s)
+    assert.ok(!validation.ok)
+    assert.equal(validation.issues[0].code, 'not_object')
+    assert.equal(validation.issues[0].message,
+      `Symbol(id) is not assignable to 'user'.\n  Not an object.`)
+    const field = User.validate({ id: s, name: Object.create(null) })
+    assert.ok(!field.ok)
+    assert.deepEqual(field.issues.map(i => [ i.code, i.path ]), [
+      [ 'super_mismatch', [ 'id' ] ],
+      [ 'super_mismatch', [ 'name' ] ],
+    ])
+    assert.ok(!User.validate(Object.create(null)).ok)
+  })
+})
@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { constraint } from '../src/prim.js'
+import { Int, Int16, Int32 } from '../src/int.js'
+import { Varchar } from '../src/varchar.js'
+import { rangeConstraint } from '../src/range.js'
+import { lookup, register, registered } from '../src/registry.js'
+
+describe('register', () => {
+  it('interns the results of the built-in factories', () => {
+    assert.equal(Int(4), Int32)
+    assert.equal(Varchar(64), Varchar(64))
+  })
+
+  it('returns the registered constructor for an equivalent one', () => {
+    const Port = register(Int32.extend('test_port', rangeConstraint(1, 65535)))
+    const Again = Int32.extend('test_port', rangeConstraint(1, 65535))
+    assert.notEqual(Again, Port)
+    assert.equal(register(Again), Port)
+  })
+
+  it('rejects a different constructor with the same name', () => {
+    register(Int32.extend('test_id'))
+    assert.throws(() => register(Int16.extend('test_id')), {
+      name: 'TypeError',
+      message: `Conflicting definition for 'test_id'.\n` +
+        `  A different constructor is registered under this name.`
+    })
+    assert.throws(() => register(Int32.extend('test_id',
+      rangeConstraint(1, 10))), { name: 'TypeError' })
+  })
+
+  it('compares constraints by their metadata', () => {
+    const isOdd = () => () => undefined
+    register(Int32.extend('test_odd', isOdd()))
+    assert.throws(() => register(Int32.extend('test_odd', isOdd())), {
+      name: 'TypeError',
+      message: `Conflicting definition for 'test_odd'.\n` +
+        `  Constraints and transforms without metadata can not be compared.\n` +
+        `  Declare them with \`constraint\` and \`transform\`.`
+    })
+    const isEven = () => constraint('even', {}, () => undefined)
+    const Even = register(Int32.extend('test_even', isEven()))
+    assert.equal(register(Int32.extend('test_even', isEven())), Even)
+  })
+})
+
+describe('lookup', () => {
+  it('finds constructors by the name they print', () => {
+    assert.equal(lookup('int<4>'), Int32)
+    assert.equal(lookup('test_unknown'), undefined)
+  })
+
+  it('finds constructors of factories once they are created', () => {
+    assert.equal(lookup('varchar<37>'), undefined)
+    const V = Varchar(37)
+    assert.equal(lookup('varchar<37>'), V)
+    assert.ok(registered().includes('varchar<37>'))
+  })
+})
@@ -0,0 +1,122 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { Prim, constraint } from '../src/prim.js'
+import { type int8, type int16, Int8, Int54 } from '../src/int.js'
+import { type big64, Big64 } from '../src/big.js'
+import { Varchar } from '../src/varchar.js'
+import { Char } from '../src/char.js'
+import { widthConstraint } from '../src/width.js'
+import { rangeConstraint } from '../src/range.js'
+import { Enum } from '../src/enum.js'
+import { Optional, Nullable } from '../src/optional.js'
+import { bigintPattern, jsonSchemaKeywords,
+  toJsonSchema } from '../src/schema.js'
+
+describe('toJsonSchema', () => {
+  it('converts native constructors', () => {
+    assert.deepEqual(toJsonSchema(Number), { type: 'number' })
+    assert.deepEqual(toJsonSchema(String), { type: 'string' })
+  })
+
+  it('converts integers to bounded integers', () => {
+    assert.deepEqual(toJsonSchema(Int8),
+      { type: 'integer', minimum: -128, maximum: 127 }
+    )
+    assert.deepEqual(toJsonSchema(Int54), {
+      type: 'integer',
+      minimum: Number.MIN_SAFE_INTEGER - 1,
+      maximum: Number.MAX_SAFE_INTEGER
+    })
+  })
+
+  it('converts bigints to strings', () => {
+    assert.deepEqual(toJsonSchema(Big64),
+      { type: 'string', pattern: bigintPattern, maxLength: 20 }
+    )
+  })
+
+  it('keeps bigint bounds of number types', () => {
+    const Small = Prim<int8>('small', Int8, rangeConstraint(-10n, 10n))
+    assert.deepEqual(toJsonSchema(Small),
+      { type: 'integer', minimum: -10, maximum: 10 }
+    )
+  })
+
+  it('does not export the bounds of bigint types', () => {
+    const Positive =
+      Prim<big64>('positive', Big64, rangeConstraint(1n, 2n ** 63n - 1n))
+    assert.deepEqual(toJsonSchema(Positive), toJsonSchema(Big64))
+  })
+
+  it('converts string lengths', () => {
+    assert.deepEqual(toJsonSchema(Varchar(64)),
+      { type: 'string', maxLength: 64 }
+    )
+  })
+
+  it('weakens minimum lengths in UTF-16 code units to code points', () => {
+    // 4 UTF-16 code units may be 2 astral code points, like '😀😀'
+    assert.deepEqual(toJsonSchema(Char(4)),
+      { type: 'string', minLength: 2, maxLength: 4 }
+    )
+    assert.deepEqual(toJsonSchema(Char(8, { unit: 'utf8' })),
+      { type: 'string', minLength: 2, maxLength: 8 }
+    )
+  })
+
+  it('gives fixed lengths in code points exactly', () => {
+    assert.deepEqual(toJsonSchema(Char(3, { unit: 'codepoint' })),
+      { type: 'string', minLength: 3, maxLength: 3 }
+    )
+  })
+
+  it('keeps the tightest bounds', () => {
+    const Short = Prim<int16>('short', Int54, widthConstraint(2))
+    assert.deepEqual(toJsonSchema(Short),
+      { type: 'integer', minimum: -32768, maximum: 32767 }
+    )
+  })
+
+  it('uses the keywords registered for custom constraints', () => {
+    const isEven = constraint('even', {}, () => undefined)
+    const Even = Prim<int8>('even', Int8, isEven)
+    jsonSchemaKeywords.even = () => ({ multipleOf: 2 })
+    try {
+      assert.deepEqual(toJsonSchema(Even),
+        { type: 'integer', minimum: -128, maximum: 127, multipleOf: 2 }
+      )
+    } finally {
+      delete jsonSchemaKeywords.even
+    }
+  })
+
+  it('adds null to the type of nullable constructors', () => {
+    assert.deepEqual(toJsonSchema(Nullable(Int8)),
+      { type: [ 'integer', 'null' ], minimum: -128, maximum: 127 }
+    )
+    assert.deepEqual(toJsonSchema(Optional(Int8)),
+      { type: 'integer', minimum: -128, maximum: 127 }
+    )
+  })
+
+  it('adds null to the enum of nullable constructors', () => {
+    const Color = Enum('color', [ 'red', 'green' ] as const)
+    assert.deepEqual(toJsonSchema(Nullable(Color)),
+      { type: [ 'string', 'null' ], enum: [ 'red', 'green', null ] }
+    )
+  })
+
+  it('turns the const of nullable constructors into an enum', () => {
+    const isZero = constraint('zero', {}, () => undefined)
+    const Zero = Prim<int8>('zero', Int8, isZero)
+    jsonSchemaKeywords.zero = () => ({ const: 0 })
+    try {
+      assert.deepEqual(toJsonSchema(Nullable(Zero)), {
+        type: [ 'integer', 'null' ], minimum: -128, maximum: 127,
+        enum: [ 0, null ]
+      })
+    } finally {
+      delete jsonSchemaKeywords.zero
+    }
+  })
+})
@@ -0,0 +1,92 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import type { PRIM, Constructor } from '../src/prim.js'
+import { Int8, Int32 } from '../src/int.js'
+import { Uint32 } from '../src/uint.js'
+import { Big128 } from '../src/big.js'
+import { Float32, Float64 } from '../src/float.js'
+import { Char } from '../src/char.js'
+import { Varchar } from '../src/varchar.js'
+import { Memo } from '../src/memo.js'
+import { Enum } from '../src/enum.js'
+import { Optional, Nullable } from '../src/optional.js'
+import { createTable, sqlChecks, toSqlType } from '../src/sql.js'
+
+describe('toSqlType', () => {
+  const types: Constructor<PRIM>[] = [ Int8, Int32, Uint32, Big128, Float32,
+    Float64, Char(3), Varchar(64), Memo ]
+
+  it('maps the types to postgres column types by default', () => {
+    assert.deepEqual(types.map(pc => toSqlType(pc)), [ 'SMALLINT', 'INTEGER',
+      'BIGINT', 'NUMERIC(39)', 'REAL', 'DOUBLE PRECISION', 'CHAR(3)',
+      'VARCHAR(64)', 'TEXT' ])
+  })
+
+  it('maps the types to mysql column types', () => {
+    assert.deepEqual(types.map(pc => toSqlType(pc, 'mysql')), [ 'TINYINT',
+      'INT', 'INT UNSIGNED', 'NUMERIC(39)', 'FLOAT', 'DOUBLE', 'CHAR(3)',
+      'VARCHAR(64)', 'TEXT' ])
+  })
+
+  it('maps the types to sqlite column types', () => {
+    assert.deepEqual(types.map(pc => toSqlType(pc, 'sqlite')), [ 'INTEGER',
+      'INTEGER', 'INTEGER', 'TEXT', 'REAL', 'REAL', 'TEXT', 'TEXT', 'TEXT' ])
+  })
+
+  it('uses the column type of the wrapped constructor', () => {
+    assert.equal(toSqlType(Optional(Int8)), 'SMALLINT')
+    assert.equal(toSqlType(Nullable(Varchar(64))), 'VARCHAR(64)')
+  })
+})
+
+describe('sqlChecks', () => {
+  it('checks ranges the column type does not enforce', () => {
+    assert.deepEqual(sqlChecks(Int8, 'age'), [ '"age" BETWEEN -128 AND 127' ])
+    assert.deepEqual(sqlChecks(Int8, 'age', 'mysql'), [])
+    assert.deepEqual(sqlChecks(Int32, 'n'), [])
+  })
+
+  it('checks lengths the column type does not enforce', () => {
+    assert.deepEqual(sqlChecks(Varchar(64), 'name'), [])
+    assert.deepEqual(sqlChecks(Varchar(64), 'name', 'sqlite'),
+      [ 'length("name") <= 64' ])
+    assert.deepEqual(sqlChecks(Char(3), 'code', 'sqlite'),
+      [ 'length("code") <= 3', 'length("code") >= 2' ])
+  })
+
+  it('checks fixed lengths in chars or bytes exactly', () => {
+    assert.deepEqual(sqlChecks(Char(3, { unit: 'codepoint' }), 'code',
+      'sqlite'), [ 'length("code") = 3' ])
+    assert.deepEqual(sqlChecks(Char(3, { unit: 'utf8' }), 'code', 'sqlite'),
+      [ 'length(CAST("code" AS BLOB)) = 3' ])
+  })
+
+  it('checks the values of enums, quoting the literals', () => {
+    const Quote = Enum('quote', [ 'red', "it's" ] as const)
+    assert.deepEqual(sqlChecks(Quote, 'q'), [ `"q" IN ('red', 'it''s')` ])
+  })
+
+  it('uses the checks of the wrapped constructor', () => {
+    assert.deepEqual(sqlChecks(Optional(Int8), 'age'),
+      [ '"age" BETWEEN -128 AND 127' ])
+  })
+})
+
+describe('createTable', () => {
+  it('generates the columns with their types and checks', () => {
+    assert.equal(
+      createTable('users',
+        { id: Uint32, name: Varchar(64), age: Nullable(Int8) }),
+      'CREATE TABLE "users" (\n' +
+      '  "id" BIGINT NOT NULL CHECK ("id" BETWEEN 0 AND 4294967295),\n' +
+      '  "name" VARCHAR(64) NOT NULL,\n' +
+      '  "age" SMALLINT NULL CHECK ("age" BETWEEN -128 AND 127)\n' +
+      ');'
+    )
+  })
+
+  it('quotes the identifiers for the dialect', () => {
+    assert.equal(createTable('order', { id: Int32 }, 'mysql'),
+      'CREATE TABLE `order` (\n  `id` INT NOT NULL\n);')
+  })
+})
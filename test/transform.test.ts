@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { Prim } from '../src/prim.js'
+import { Int8 } from '../src/int.js'
+import { Varchar } from '../src/varchar.js'
+import { Email } from '../src/formats.js'
+import { collapseWhitespace, lowercase, normalize, trim,
+  unsignedZero } from '../src/transform.js'
+
+describe('transforms', () => {
+  it('normalize strings', () => {
+    assert.equal(trim('  Alice '), 'Alice')
+    assert.equal(collapseWhitespace(' Alice \n  Smith '), 'Alice Smith')
+    assert.equal(normalize()('é'), 'é')
+    assert.equal(normalize('NFKC')('ﬁ'), 'fi')
+    assert.equal(lowercase('Foo'), 'foo')
+  })
+
+  it('leave values of other types unchanged', () => {
+    for (const t of [ trim, collapseWhitespace, normalize(), lowercase ]) {
+      assert.equal(t(42), 42)
+    }
+    assert.equal(unsignedZero('-0'), '-0')
+  })
+
+  it('convert -0 to 0', () => {
+    assert.ok(Object.is(unsignedZero(-0), 0))
+    assert.ok(Object.is(Int8(-0), 0))
+  })
+
+  it('describe themselves', () => {
+    assert.deepEqual(normalize('NFD').meta,
+      { kind: 'normalize', params: { form: 'NFD' } }
+    )
+    assert.deepEqual(Email.transforms.map(t => t.meta), [
+      { kind: 'trim', params: {} },
+      { kind: 'lowercase', params: {} }
+    ])
+  })
+})
+
+describe('the constructor pipeline', () => {
+  const Name = Prim('name', Varchar(12), [], [ collapseWhitespace ])
+
+  it('applies transforms before checking constraints', () => {
+    assert.equal(Name('  Alice   Smith '), 'Alice Smith')
+    assert.deepEqual(Name.validate('  Alice   Smith '),
+      { ok: true, value: 'Alice Smith' }
+    )
+  })
+
+  it('does not apply transforms in is and as', () => {
+    assert.ok(!Name.is('  Alice   Smith '))
+    assert.throws(() => Name.as('  Alice   Smith '), { code: 'too_long' })
+  })
+
+  it('inherits the transforms of the super constructor', () => {
+    const Short = Prim('short', Name, [], lowercase)
+    assert.deepEqual(Short.transforms, [ collapseWhitespace, lowercase ])
+    assert.equal(Short(' Alice  Smith '), 'alice smith')
+  })
+})
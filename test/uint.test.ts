@@ -0,0 +1,75 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { constraintMeta, primTypeOf } from '../src/prim.js'
+import type { int8, int16, int54 } from '../src/int.js'
+import { type uint8, Uint8, Uint16, Uint54 } from '../src/uint.js'
+import { Ubig64 } from '../src/ubig.js'
+import { Uvarint } from '../src/uvarint.js'
+import { Varint } from '../src/varint.js'
+import { Arithmetic } from '../src/arithmetic.js'
+import { decode, encode } from '../src/binary.js'
+import { decodeLeb128 } from '../src/leb128.js'
+import { toJsonSchema } from '../src/schema.js'
+
+describe('unsigned integers', () => {
+  it('accept values from 0 up to 2^bits-1', () => {
+    assert.equal(Uint8(0), 0)
+    assert.equal(Uint8(255), 255)
+    assert.equal(Uint16(65535), 65535)
+    assert.equal(Ubig64(2n ** 64n - 1n), 2n ** 64n - 1n)
+  })
+
+  it('reject negative values and values that are too big', () => {
+    assert.throws(() => Uint8(-1), { code: 'out_of_range' })
+    assert.throws(() => Uint8(256), { code: 'out_of_range' })
+    assert.throws(() => Ubig64(2n ** 64n), { code: 'out_of_range' })
+    assert.throws(() => Uint8(1.5), { code: 'not_integer' })
+  })
+
+  it('fit in the next wider signed int, not in the same width', () => {
+    let u: uint8 = Uint8(200)
+    let w: int16 = u
+    // @ts-expect-error uint8 does not fit int8
+    let b: int8 = u
+    // @ts-expect-error int16 does not fit uint8
+    u = w
+    // @ts-expect-error uint54 does not fit any number-backed int
+    let i: int54 = Uint54(1)
+    assert.deepEqual([ b, i ], [ 200, 1 ])
+  })
+
+  it('describe their bounds with uwidth metadata', () => {
+    assert.deepEqual(constraintMeta(Uint16, 'uwidth'), { kind: 'uwidth',
+      params: { width: 2, bits: 16, min: 0n, max: 65535n }
+    })
+    assert.equal(constraintMeta(Uint54, 'uwidth')?.params.max, 2n ** 53n - 1n)
+  })
+
+  it('cap uint54 at the largest safe integer', () => {
+    assert.equal(Uint54(2 ** 53 - 1), Number.MAX_SAFE_INTEGER)
+    assert.throws(() => Uint54(2 ** 53), { code: 'out_of_range' })
+    assert.throws(() => Uint54(2 ** 53 + 2), { code: 'out_of_range' })
+    assert.equal(toJsonSchema(Uint54).maximum, Number.MAX_SAFE_INTEGER)
+  })
+
+  it('never round uint54 values in arithmetic or decoding', () => {
+    const max = Uint54(2 ** 53 - 1)
+    assert.throws(() => Arithmetic(Uint54).add(max, Uint54(1)),
+      { code: 'overflow' })
+    assert.equal(Arithmetic(Uint54, 'saturate').add(max, Uint54(1)), max)
+    assert.equal(decode(Uint54, encode(Uint54, max)), max)
+    const bytes = new Uint8Array([ 32, 0, 0, 0, 0, 0, 1 ])
+    assert.throws(() => decode(Uint54, bytes), { code: 'out_of_range' })
+    assert.throws(() => decodeLeb128(Uint54,
+      new Uint8Array([ 129, 128, 128, 128, 128, 128, 128, 16 ])),
+      { code: 'out_of_range' })
+  })
+
+  it('map widths to number or bigint like varint', () => {
+    for (let w = 1 as const; w <= 15; w++) {
+      assert.equal(primTypeOf(Uvarint(w)), primTypeOf(Varint(w)))
+    }
+    assert.equal(primTypeOf(Uvarint(7)), 'number')
+    assert.equal(primTypeOf(Uvarint(8)), 'bigint')
+  })
+})